@@ -0,0 +1,125 @@
+import {Command} from '@oclif/core'
+import fetch from 'cross-fetch'
+import {formatUnits} from '@ethersproject/units'
+import {getEnvironment} from '@holographxyz/environment'
+
+import {ensureConfigFileIsValid} from '../utils/config'
+import {OperatorJob} from '../utils/operator-job'
+import {getOperatorJobJournalPath, OperatorJobJournal, OperatorJobJournalState} from '../utils/operator-job-journal'
+
+export enum OperatorJobStatus {
+  pending = 'pending',
+  failed = 'failed',
+  executed = 'executed',
+}
+
+export type OperatorJobRow = {
+  hash: string
+  status: OperatorJobStatus
+  network: string
+  targetTime: string
+  gasLimit: string
+  gasPrice: string
+  pod: number
+  operator: string
+  fallbackOperators: string
+  attempts: number
+  nextAttemptTime: string
+  lastFailure: string
+}
+
+/**
+ * OperatorJobJournalCommand
+ * Description: Base for the commands that inspect and manage the job journal of the operator.
+ */
+export abstract class OperatorJobJournalCommand extends Command {
+  jobJournal!: OperatorJobJournal
+
+  async loadJobJournal(): Promise<OperatorJobJournalState> {
+    await ensureConfigFileIsValid(this.config.configDir, undefined, false)
+    this.jobJournal = new OperatorJobJournal(getOperatorJobJournalPath(this.config.configDir, getEnvironment()))
+    this.debug(`Job journal path ${this.jobJournal.filePath}`)
+    return this.jobJournal.replay()
+  }
+
+  /**
+   * Sends a job action to the control API of the running operator
+   * Returns false when no operator listens on the port, so that the action can be applied to the journal instead
+   */
+  async requestJobAction(port: number, token: string, jobHash: string, action: string): Promise<boolean> {
+    let response: Response
+    try {
+      response = await fetch(`http://127.0.0.1:${port}/jobs/${jobHash}/${action}`, {
+        method: 'POST',
+        headers: {Authorization: `Bearer ${token}`},
+      })
+    } catch (error: any) {
+      if (error.code === 'ECONNREFUSED') {
+        this.debug(`No control API listening on port ${port}`)
+        return false
+      }
+
+      throw error
+    }
+
+    if (!response.ok) {
+      const body: any = await response.json().catch(() => ({}))
+      this.error(`Control API request failed with status ${response.status}: ${body.error ?? response.statusText}`)
+    }
+
+    return true
+  }
+
+  /**
+   * A running operator rewrites the journal from its own state, changes written to it directly would be lost
+   */
+  ensureJobJournalIsNotOwned(): void {
+    const owner: number | undefined = this.jobJournal.getOwner()
+    if (owner !== undefined) {
+      this.error(
+        `The job journal is in use by the operator running as process ${owner}. Pass --controlApiToken to send the change to its control API, or stop it first.`,
+      )
+    }
+  }
+
+  getJobRows(state: OperatorJobJournalState): OperatorJobRow[] {
+    return [
+      ...Object.values(state.operatorJobs).map(job => this.toJobRow(job, OperatorJobStatus.pending)),
+      ...Object.values(state.failedOperatorJobs).map(job => this.toJobRow(job, OperatorJobStatus.failed)),
+      ...Object.values(state.executedOperatorJobs).map(job => this.toJobRow(job, OperatorJobStatus.executed)),
+    ]
+  }
+
+  toJobRow(job: OperatorJob, status: OperatorJobStatus): OperatorJobRow {
+    return {
+      hash: job.hash,
+      status,
+      network: job.network,
+      targetTime: new Date(job.targetTime).toISOString(),
+      gasLimit: job.gasLimit.toString(),
+      gasPrice: `${formatUnits(job.gasPrice, 'gwei')} GWEI`,
+      pod: job.jobDetails.pod,
+      operator: job.jobDetails.operator,
+      fallbackOperators: job.jobDetails.fallbackOperators.join(', '),
+      attempts: job.attempts ?? 0,
+      nextAttemptTime: job.nextAttemptTime === undefined ? '' : new Date(job.nextAttemptTime).toISOString(),
+      lastFailure: job.lastFailure === undefined ? '' : `${job.lastFailure.failureClass}: ${job.lastFailure.message}`,
+    }
+  }
+
+  findJob(state: OperatorJobJournalState, jobHash: string): {job: OperatorJob; status: OperatorJobStatus} | undefined {
+    if (jobHash in state.operatorJobs) {
+      return {job: state.operatorJobs[jobHash], status: OperatorJobStatus.pending}
+    }
+
+    if (jobHash in state.failedOperatorJobs) {
+      return {job: state.failedOperatorJobs[jobHash], status: OperatorJobStatus.failed}
+    }
+
+    if (jobHash in state.executedOperatorJobs) {
+      return {job: state.executedOperatorJobs[jobHash], status: OperatorJobStatus.executed}
+    }
+
+    return undefined
+  }
+}
@@ -15,6 +15,7 @@ import {
 } from '@holographxyz/networks'
 
 import {ensureConfigFileIsValid} from '../../utils/config'
+import {BlockTimestampMatch, isIsoDate, parseIsoDate} from '../../utils/block-timestamp'
 import {toAscii, sha3, storageSlot} from '../../utils/web3'
 import {FilterType, BlockJob, NetworkMonitor, TransactionType} from '../../utils/network-monitor'
 import ApiService from '../../services/api-service'
@@ -42,8 +43,9 @@ type TransactionLog = {
 
 interface Scope {
   network: string
-  startBlock: number
-  endBlock: number
+  // Block numbers, or ISO dates that are resolved to the blocks of the network
+  startBlock: number | string
+  endBlock: number | string
 }
 
 interface ContractDeployment extends TransactionLog {
@@ -75,6 +77,7 @@ interface RawData {
   to?: string
 }
 
+const isValidScopeBlock = (block: number | string): boolean => typeof block === 'number' || isIsoDate(block)
 const getCorrectValue = (val1: any, val2: any) => (val1 && val1 !== val2 ? val1 : val2)
 const getTxStatus = (tx?: string, currentStatus?: string) => {
   let status: TransactionStatus
@@ -94,11 +97,13 @@ export default class Analyze extends Command {
   static description = 'Extract all operator jobs and get their status'
   static examples = [
     `$ <%= config.bin %> <%= command.id %> --scope='{"network":"goerli","startBlock":10857626,"endBlock":11138178}' --scope='{"network":"mumbai","startBlock":26758573,"endBlock":27457918}' --scope='{"network":"fuji","startBlock":11406945,"endBlock":12192217}' --updateApiUrl='https://api.holograph.xyz'`,
+    `$ <%= config.bin %> <%= command.id %> --scope='{"network":"goerli","startBlock":"2024-05-01T10:00Z","endBlock":"2024-05-01T12:00Z"}'`,
   ]
 
   static flags = {
     scope: Flags.string({
-      description: 'JSON object of blocks to analyze "{ network: string, startBlock: number, endBlock: number }"',
+      description:
+        'JSON object of blocks to analyze "{ network: string, startBlock: number | string, endBlock: number | string }", blocks can be given as ISO dates',
       multiple: true,
     }),
     scopeFile: Flags.string({
@@ -209,13 +214,22 @@ export default class Analyze extends Command {
         blockJobs[network] = []
         for (const scopeJob of scopeJobs) {
           if (scopeJob.network === network) {
-            let endBlock: number = scopeJob.endBlock
+            const startBlock: number = await this.resolveScopeBlock(
+              network,
+              scopeJob.startBlock,
+              BlockTimestampMatch.atOrAfter,
+            )
+            let endBlock: number = await this.resolveScopeBlock(
+              network,
+              scopeJob.endBlock,
+              BlockTimestampMatch.atOrBefore,
+            )
             // Allow syncing up to current block height if endBlock is set to 0
             if (endBlock === 0) {
               endBlock = await this.networkMonitor.providers[network].getBlockNumber()
             }
 
-            for (let n = scopeJob.startBlock, nl = endBlock; n <= nl; n++) {
+            for (let n = startBlock, nl = endBlock; n <= nl; n++) {
               blockJobs[network].push({
                 network: network,
                 block: n,
@@ -250,11 +264,26 @@ export default class Analyze extends Command {
     }
   }
 
+  /**
+   * Resolves a scope block given as an ISO date to the block of the network
+   */
+  async resolveScopeBlock(network: string, block: number | string, match: BlockTimestampMatch): Promise<number> {
+    return typeof block === 'number'
+      ? block
+      : this.networkMonitor.findBlockByTimestamp(network, parseIsoDate(block), match)
+  }
+
   /**
    * Validates that the input scope is valid and using a supported network
    */
   validateScope(scope: Scope, networks: string[], scopeJobs: Scope[]): void {
-    if ('network' in scope && 'startBlock' in scope && 'endBlock' in scope) {
+    if (
+      'network' in scope &&
+      'startBlock' in scope &&
+      'endBlock' in scope &&
+      isValidScopeBlock(scope.startBlock) &&
+      isValidScopeBlock(scope.endBlock)
+    ) {
       if (supportedShortNetworks.includes(scope.network)) {
         scope.network = getNetworkByShortKey(scope.network).key
       }
@@ -207,7 +207,6 @@ export default class BridgeContract extends Command {
         gasPrice,
         data as string,
       ],
-      waitForReceipt: true,
       value: total.add(total.div(BigNumber.from('4'))),
     })
     CliUx.ux.action.stop()
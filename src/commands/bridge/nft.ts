@@ -275,7 +275,6 @@ export default class BridgeNFT extends Command {
       contract: this.networkMonitor.bridgeContract.connect(this.networkMonitor.providers[destinationNetwork]),
       methodName: 'bridgeOutRequest',
       args: [networks[destinationNetwork].holographId, collectionAddress, estimatedGas, gasPrice, data as string],
-      waitForReceipt: true,
       value: total.add(total.div(BigNumber.from('4'))),
     })
     CliUx.ux.action.stop()
@@ -138,12 +138,15 @@ export default class Config extends Command {
       // Add networks to the user config
       // It's okay to await in loop because this is a synchronous operation
       for (const network of providedNetworks) {
+        const providerEndpoints = userConfigTemplate.networks[network]?.providerEndpoints
         const prompt: any = await inquirer.prompt([
           {
             name: 'providerUrl',
-            message: `Enter the provider url for ${networks[network].shortKey}. Leave blank to use ${
-              userConfigTemplate.networks[network]?.providerUrl || networks[network].rpc
-            } :`,
+            message: providerEndpoints
+              ? `Enter the provider url for ${networks[network].shortKey}. The ${providerEndpoints.length} providerEndpoints configured for it take precedence over this url. Leave blank to keep using them :`
+              : `Enter the provider url for ${networks[network].shortKey}. Leave blank to use ${
+                  userConfigTemplate.networks[network]?.providerUrl || networks[network].rpc
+                } :`,
             type: 'input',
             validate: async (input: string) => {
               if (isStringAValidURL(input) || input === '') {
@@ -156,8 +159,17 @@ export default class Config extends Command {
         ])
 
         // Leave existing providerUrl if user didn't enter a new one
+        // Only the url is replaced, the other settings of the network are kept
         if (prompt.providerUrl !== '') {
-          userConfigTemplate.networks[network] = {providerUrl: prompt.providerUrl}
+          userConfigTemplate.networks[network] = {
+            ...userConfigTemplate.networks[network],
+            providerUrl: prompt.providerUrl,
+          }
+          if (providerEndpoints) {
+            this.warn(
+              `${networks[network].shortKey} keeps using its providerEndpoints, remove them from the config file for ${prompt.providerUrl} to be used`,
+            )
+          }
         } else if (!(network in userConfigTemplate.networks)) {
           userConfigTemplate.networks[network] = {providerUrl: networks[network].rpc}
         }
@@ -465,7 +465,6 @@ export default class Contract extends Command {
         contractDeployment.deploymentConfig.signature,
         account.address,
       ],
-      waitForReceipt: true,
     })
     CliUx.ux.action.stop()
 
@@ -180,7 +180,6 @@ export default class NFT extends Command {
           contract: collection,
           methodName: 'cxipMint',
           args: [tokenId, uriType, uri],
-          waitForReceipt: true,
         })
         CliUx.ux.action.stop()
       } else {
@@ -218,7 +217,6 @@ export default class NFT extends Command {
           value: nativePrice, // must send the price of the drop times the number to purchase
           methodName: 'purchase',
           args: [numToMint],
-          waitForReceipt: true,
         })
 
         CliUx.ux.action.stop()
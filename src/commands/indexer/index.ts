@@ -5,7 +5,7 @@ import color from '@oclif/color'
 import dotenv from 'dotenv'
 
 import {BlockHeightProcessType, Logger} from '../../types/api'
-import {ExtraDataType, InterestingEvent, InterestingLog} from '../../types/network-monitor'
+import {ChainReorg, ExtraDataType, InterestingEvent, InterestingLog} from '../../types/network-monitor'
 import {ContractType} from '../../utils/contract'
 import {
   EventValidator,
@@ -40,6 +40,7 @@ import {
   sqsHandleBridgeEvent,
 } from '../../handlers/sqs-indexer'
 import SqsService from '../../services/sqs-service'
+import {isReplayEnabled} from '../../utils/replay'
 import {shouldSync, syncFlag} from '../../flags/sync.flag'
 import {BlockHeightOptions, blockHeightFlag} from '../../flags/update-block-height.flag'
 import handleTransferERC721Event from '../../handlers/sqs-indexer/handle-transfer-erc721-event'
@@ -49,6 +50,7 @@ import {CrossChainMessageType, eventMap} from '../../utils/event/event'
 import {ProtocolEvent, protocolEventsMap} from '../../utils/protocol-events-map'
 import {SqsEventName} from '../../types/sqs'
 import handleTransferERC20Event from '../../handlers/sqs-indexer/handle-transfer-erc20-event'
+import handleChainReorg from '../../handlers/sqs-indexer/handle-chain-reorg'
 
 dotenv.config()
 
@@ -108,7 +110,7 @@ export default class Indexer extends HealthCheck {
 
     this.log(`\n👉 Holograph Version: ${HOLOGRAPH_VERSION_ENV}\n`)
 
-    if (flags.replay !== '0') {
+    if (isReplayEnabled(flags.replay)) {
       this.log('Replay flag enabled, will not load or save block heights.')
       updateBlockHeight = BlockHeightOptions.DISABLE
     }
@@ -152,6 +154,7 @@ export default class Indexer extends HealthCheck {
       debug: this.debug,
       processLogs: this.processLogs,
       processEvents: this.processEvents,
+      processReorg: this.processReorg,
       lastBlockFilename: 'indexer-blocks.json',
       replay: flags.replay,
       apiService: this.apiService,
@@ -204,7 +207,7 @@ export default class Indexer extends HealthCheck {
     }
 
     CliUx.ux.action.start(`Starting indexer`)
-    const continuous = flags.replay === '0' // If replay is set, run network monitor stops after catching up to the latest block
+    const continuous = !isReplayEnabled(flags.replay) // If replay is set, run network monitor stops after catching up to the latest block
     await this.networkMonitor.run(continuous, undefined, this.filterBuilder2)
     CliUx.ux.action.stop('🚀')
 
@@ -824,6 +827,14 @@ export default class Indexer extends HealthCheck {
     this.networkMonitor.structuredLog(job.network, `Processed ${promises.length} events in ${duration}ms`)
   }
 
+  /**
+   * Notifies the consumers of the queue that the messages sent for the orphaned blocks have to be rolled back
+   * The blocks are re-processed right after, and their messages sent again from the canonical chain
+   */
+  async processReorg(reorg: ChainReorg): Promise<void> {
+    await handleChainReorg.call(this, this.networkMonitor, reorg)
+  }
+
   async processEvent(job: BlockJob, interestingEvent: InterestingEvent) {
     const tags: (string | number)[] = [
       interestingEvent.transaction.blockNumber as number,
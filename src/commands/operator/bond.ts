@@ -1,6 +1,6 @@
 import * as inquirer from 'inquirer'
 
-import {CliUx, Command, Flags} from '@oclif/core'
+import {CliUx, Command, Errors, Flags} from '@oclif/core'
 import color from '@oclif/color'
 import {networks} from '@holographxyz/networks'
 import {BigNumber} from '@ethersproject/bignumber'
@@ -10,27 +10,46 @@ import {formatUnits} from '@ethersproject/units'
 import CoreChainService from '../../services/core-chain-service'
 import OperatorChainService from '../../services/operator-chain-service'
 import TokenChainService from '../../services/token-chain-service'
-import {PodBondAmounts} from '../../types/holograph-operator'
+import {PodInfo} from '../../types/holograph-operator'
 import {ensureConfigFileIsValid} from '../../utils/config'
-import {NetworkMonitor, networkFlag} from '../../utils/network-monitor'
+import {NetworkMonitor, networkFlag, networksFlag} from '../../utils/network-monitor'
 import {toLong18} from '../../utils/web3'
 import {checkOptionFlag} from '../../utils/validation'
 import Operator from '.'
 
+type BondOptions = {
+  pod?: number
+  amount?: number
+  yes: boolean
+}
+
 /**
  * Bond
  * Description: Bond and operator into a pod.
  */
 export default class Bond extends Command {
   static description = 'Bond in to a pod.'
-  static examples = ['$ <%= config.bin %> <%= command.id %> --network <string> --pod <number> --amount <number>']
+  static examples = [
+    '$ <%= config.bin %> <%= command.id %> --network <string> --pod <number> --amount <number>',
+    '$ <%= config.bin %> <%= command.id %> --networks ethereum polygon --yes',
+  ]
+
   static flags = {
     ...networkFlag,
+    ...networksFlag,
     pod: Flags.integer({
-      description: 'Pod number to join',
+      description: 'Pod number to join, the cheapest pod with room for another operator is used when not set',
     }),
     amount: Flags.integer({
-      description: 'Amount of tokens to deposit',
+      description: 'Amount of tokens to deposit, the current bond amount of the pod is used when not set',
+    }),
+    yes: Flags.boolean({
+      description: 'Skip all prompts, bond on every network in --networks without asking for confirmation',
+      default: false,
+      dependsOn: ['networks'],
+    }),
+    unsafePassword: Flags.string({
+      description: 'Enter the plain text password for the wallet in the holograph cli config',
     }),
   }
 
@@ -38,7 +57,7 @@ export default class Bond extends Command {
 
   async run(): Promise<void> {
     const {flags} = await this.parse(Bond)
-    let {pod, amount} = flags
+    const {pod, amount, yes, unsafePassword, network, networks: flagNetworks} = flags
     let prompt: any
 
     this.log(
@@ -46,48 +65,95 @@ export default class Bond extends Command {
         'WARNING: To bond you must first have an operator running with the same wallet on the chain you are bonding to. Failure to do so will result in a loss of funds.',
       ),
     )
-    prompt = await inquirer.prompt([
-      {
-        name: 'continue',
-        message:
-          'Do you have the operator with the wallet you are bonding from running on the network and are ready to proceed?',
-        type: 'confirm',
-        default: false,
-      },
-    ])
-    if (!prompt.continue) {
-      this.log('Operator is not ready to bond, please start an operator first.')
-      this.exit()
+    if (!yes) {
+      prompt = await inquirer.prompt([
+        {
+          name: 'continue',
+          message:
+            'Do you have the operator with the wallet you are bonding from running on the network and are ready to proceed?',
+          type: 'confirm',
+          default: false,
+        },
+      ])
+      if (!prompt.continue) {
+        this.log('Operator is not ready to bond, please start an operator first.')
+        this.exit()
+      }
     }
 
     this.log('Loading user configurations...')
     const {userWallet, configFile, supportedNetworksOptions} = await ensureConfigFileIsValid(
       this.config.configDir,
-      undefined,
+      unsafePassword,
       true,
     )
 
-    const network: string = await checkOptionFlag(
-      supportedNetworksOptions,
-      flags.network,
-      'Select the network to bond to',
-    )
-
-    this.log(`Joining network: ${networks[network].shortKey}`)
+    const bondNetworks: string[] = flagNetworks ?? [
+      await checkOptionFlag(supportedNetworksOptions, network, 'Select the network to bond to'),
+    ]
 
     this.networkMonitor = new NetworkMonitor({
       parent: this,
       configFile,
-      networks: [network],
+      networks: bondNetworks,
       debug: this.debug,
       userWallet,
       verbose: false,
     })
 
-    CliUx.ux.action.start('Loading network RPC provider')
+    CliUx.ux.action.start('Loading network RPC providers')
     await this.networkMonitor.run(true)
     CliUx.ux.action.stop()
 
+    const failedNetworks: string[] = []
+    for (const bondNetwork of this.networkMonitor.networks) {
+      try {
+        await this.bondOnNetwork(bondNetwork, {pod, amount, yes})
+      } catch (error: any) {
+        if (error instanceof Errors.ExitError) {
+          throw error
+        }
+
+        // Keep going, so that one failing network does not stop the provisioning of the others
+        this.log(color.red(`Could not bond on ${networks[bondNetwork].shortKey}: ${error.message}`))
+        failedNetworks.push(bondNetwork)
+      }
+    }
+
+    if (failedNetworks.length > 0) {
+      this.error(`Bonding failed on ${failedNetworks.map(network => networks[network].shortKey).join(', ')}`)
+    }
+
+    if (yes) {
+      this.log('Successfully bonded. Exiting...')
+      this.exit()
+    }
+
+    prompt = await inquirer.prompt([
+      {
+        name: 'continue',
+        message: "Last chance to start your operator if you don't have it running already. Would you like to proceed?",
+        type: 'confirm',
+        default: true,
+      },
+    ])
+    if (!prompt.continue) {
+      this.log('Successfully bonded. Exiting...')
+      this.exit()
+    }
+
+    await Operator.run(['--mode', 'auto'])
+  }
+
+  /**
+   * Bonds the operator wallet into a pod on a single network
+   * Throws when the bond can not go through, and returns without bonding when the user backs out
+   */
+  async bondOnNetwork(network: string, {pod, amount, yes}: BondOptions): Promise<void> {
+    let prompt: any
+
+    this.log(`Joining network: ${networks[network].shortKey}`)
+
     // Setup the contracts and chain services
     const coreChainService = new CoreChainService(network, this.networkMonitor)
     await coreChainService.initialize()
@@ -97,112 +163,60 @@ export default class Bond extends Command {
     const operatorChainService = new OperatorChainService(network, this.networkMonitor, operatorContract)
     const operator = operatorChainService.operator
 
-    const currentHlgBalance = (await tokenChainService.balanceOf(coreChainService.wallet.address)) as BigNumber
-    this.log(`Current HLG balance: ${formatUnits(currentHlgBalance, 'ether')}`)
-
-    if ((await operator.getBondedAmount(coreChainService.wallet.address)) > 0) {
-      prompt = await inquirer.prompt([
-        {
-          name: 'continue',
-          message: 'You are already bonded on this network. Would you like to unbond?',
-          type: 'confirm',
-          default: true,
-        },
-      ])
-      if (!prompt.continue) {
-        this.log('You are already bonded on this network. Please unbond first.')
-        this.exit()
-      }
-
-      this.log(`Unbonding operator ${coreChainService.wallet.address} from network: ${networks[network].shortKey}`)
-      const unbondReceipt: TransactionReceipt | null = await operatorChainService.unbondUtilityToken()
-      if (unbondReceipt === null) {
-        this.log(color.red(`Could not confirm the success of unbonding transaction.`))
-        this.exit()
-      }
-
-      prompt = await inquirer.prompt([
-        {
-          name: 'continue',
-          message: 'Would you like to rebond?',
-          type: 'confirm',
-          default: true,
-        },
-      ])
-      if (!prompt.continue) {
-        this.log('Thank you. Come again.')
-        this.exit()
-      }
+    if (!(await this.unbondBeforeRebonding(network, coreChainService, operatorChainService, yes))) {
+      return
     }
 
+    // Read after unbonding, which returns the previous bond to the wallet
+    const currentHlgBalance = BigNumber.from(await tokenChainService.balanceOf(coreChainService.wallet.address))
+    this.log(`Current HLG balance: ${formatUnits(currentHlgBalance, 'ether')}`)
     if (!currentHlgBalance.gt(BigNumber.from('0'))) {
-      this.log('No HLG balance found, please deposit HLG into your wallet before bonding.')
-      this.exit()
-    }
-
-    this.log('Checking pods available...')
-    const totalPods = await operator.getTotalPods()
-    this.log(`Total Pods: ${totalPods}`)
-
-    // Get the bond amounts for each pod
-    const allPodBondAmounts: PodBondAmounts[] = []
-    for (let i = 1; i <= totalPods; i++) {
-      allPodBondAmounts.push(await operator.getPodBondAmounts(i))
+      throw new Error('No HLG balance found, please deposit HLG into your wallet before bonding.')
     }
 
-    const podChoices: string[] = allPodBondAmounts.map((podBondAmounts, index) => {
-      return `${index + 1} - ${formatUnits(podBondAmounts.current, 'ether')} HLG`
-    })
-
-    if (!pod) {
-      prompt = await inquirer.prompt([
-        {
-          name: 'pod',
-          message: 'Enter the pod number to join',
-          type: 'list',
-          choices: podChoices,
-        },
-      ])
-      pod = Number.parseInt(prompt.pod.split(' - ')[0], 10)
-      this.log(`Joining pod: ${pod}`)
-    }
+    const {pods, selectedPod} = await this.selectPod(operatorChainService, pod, yes)
+    pod = selectedPod
+    this.log(`Joining pod: ${pod}`)
 
-    const podBondAmounts: PodBondAmounts = await operator.getPodBondAmounts(pod)
+    const podBondAmounts = pods.find(podInfo => podInfo.pod === pod) ?? (await operator.getPodBondAmounts(pod))
     this.log(
       `Pod ${pod} has a base bond amount of ${formatUnits(
         podBondAmounts.base,
         'ether',
       )} and currently requires ${formatUnits(podBondAmounts.current, 'ether')} to bond.`,
     )
-    this.log(`Enter an amount greater or equal to: ${formatUnits(podBondAmounts.current, 'ether')} to bond.`)
 
-    if (!amount) {
-      prompt = await inquirer.prompt([
-        {
-          name: 'amount',
-          message: `Enter the amount of tokens to deposit (Units in ether)`,
-          type: 'number',
-          validate: async (input: number) => {
-            const inputBN = BigNumber.from(toLong18(input))
-            if (typeof input === 'number' && input > 0 && inputBN.gte(podBondAmounts.current)) {
-              return true
-            }
-
-            return 'Input is not a valid bond amount'
-          },
-        },
-      ])
-      amount = prompt.amount
+    const bondAmount: BigNumber = await this.resolveBondAmount(BigNumber.from(podBondAmounts.current), amount, yes)
+    if (bondAmount.lt(podBondAmounts.current)) {
+      throw new Error(
+        `${formatUnits(bondAmount, 'ether')} HLG is below the ${formatUnits(
+          podBondAmounts.current,
+          'ether',
+        )} HLG currently required by pod ${pod}`,
+      )
+    }
+
+    if (bondAmount.gt(currentHlgBalance)) {
+      throw new Error(
+        `The HLG balance of ${formatUnits(currentHlgBalance, 'ether')} does not cover the bond of ${formatUnits(
+          bondAmount,
+          'ether',
+        )} HLG`,
+      )
     }
 
+    await this.ensureAllowance(tokenChainService, coreChainService.wallet.address, operator.address, bondAmount, yes)
+
     this.log(
-      `Bonding from ${coreChainService.wallet.address} to pod ${pod} on ${networks[network].shortKey} network for ${amount} tokens`,
+      `Bonding from ${coreChainService.wallet.address} to pod ${pod} on ${
+        networks[network].shortKey
+      } network for ${formatUnits(bondAmount, 'ether')} tokens`,
     )
 
     CliUx.ux.action.start('Calculating gas amounts and prices')
     const estimatedGas: BigNumber = await operatorChainService.estimateGasForBondUtilityToken(
       coreChainService.wallet.address,
-      toLong18(amount as number),
+      bondAmount,
       pod,
     )
     CliUx.ux.action.stop()
@@ -213,57 +227,225 @@ export default class Bond extends Command {
       }`,
     )
     if (estimatedGas.gt(await coreChainService.getBalance())) {
-      this.log(
+      throw new Error(
         `You do not have enough ${networks[network].tokenSymbol} to cover the transaction cost. Please deposit more ${networks[network].tokenSymbol} into your wallet before bonding.`,
       )
-      this.exit()
     }
 
-    prompt = await inquirer.prompt([
-      {
-        name: 'continue',
-        message: 'Next steps submit the transaction, would you like to proceed?',
-        type: 'confirm',
-        default: true,
-      },
-    ])
-    if (!prompt.continue) {
-      this.log('Dropping command, no blockchain transactions executed')
-      this.exit()
+    if (!yes) {
+      prompt = await inquirer.prompt([
+        {
+          name: 'continue',
+          message: 'Next steps submit the transaction, would you like to proceed?',
+          type: 'confirm',
+          default: true,
+        },
+      ])
+      if (!prompt.continue) {
+        this.log('Dropping command, no blockchain transactions executed')
+        this.exit()
+      }
     }
 
     const receipt: TransactionReceipt | null = await operatorChainService.bondUtilityToken(
       coreChainService.wallet.address,
-      toLong18(amount as number),
+      bondAmount,
       pod,
     )
 
     if (receipt === null) {
-      this.log(color.red(`Could not confirm the success of transaction.`))
-      this.exit()
+      throw new Error('Could not confirm the success of transaction.')
     }
 
     this.log(
       color.green(
-        `Welcome operator! Your wallet ${coreChainService.wallet.address} has bonded ${amount} eth to pod ${pod} on ${networks[network].shortKey} 🎉` +
+        `Welcome operator! Your wallet ${coreChainService.wallet.address} has bonded ${formatUnits(
+          bondAmount,
+          'ether',
+        )} HLG to pod ${pod} on ${networks[network].shortKey} 🎉` +
           `\nAgain please make sure your operator remains operational! ` +
           `Failure will result in slashed funds!`,
       ),
     )
+  }
+
+  /**
+   * Unbonds an operator that is already bonded on the network, so that it can bond again
+   * Returns false when the network is skipped, unbonding is never done without asking
+   */
+  async unbondBeforeRebonding(
+    network: string,
+    coreChainService: CoreChainService,
+    operatorChainService: OperatorChainService,
+    yes: boolean,
+  ): Promise<boolean> {
+    const bondedAmount = BigNumber.from(
+      await operatorChainService.operator.getBondedAmount(coreChainService.wallet.address),
+    )
+    if (bondedAmount.isZero()) {
+      return true
+    }
+
+    if (yes) {
+      // It can lose the position of the operator in its pod
+      this.log(`Already bonded on ${networks[network].shortKey}, skipping.`)
+      return false
+    }
+
+    let prompt: any = await inquirer.prompt([
+      {
+        name: 'continue',
+        message: 'You are already bonded on this network. Would you like to unbond?',
+        type: 'confirm',
+        default: true,
+      },
+    ])
+    if (!prompt.continue) {
+      this.log('You are already bonded on this network. Please unbond first.')
+      this.exit()
+    }
+
+    this.log(`Unbonding operator ${coreChainService.wallet.address} from network: ${networks[network].shortKey}`)
+    const unbondReceipt: TransactionReceipt | null = await operatorChainService.unbondUtilityToken()
+    if (unbondReceipt === null) {
+      throw new Error('Could not confirm the success of unbonding transaction.')
+    }
 
     prompt = await inquirer.prompt([
       {
         name: 'continue',
-        message: "Last chance to start your operator if you don't have it running already. Would you like to proceed?",
+        message: 'Would you like to rebond?',
         type: 'confirm',
         default: true,
       },
     ])
     if (!prompt.continue) {
-      this.log('Successfully bonded. Exiting...')
+      this.log('Thank you. Come again.')
       this.exit()
     }
 
-    await Operator.run(['--mode', 'auto'])
+    return true
+  }
+
+  /**
+   * Picks the pod to join, the one passed as a flag, the recommended one with --yes, or the one the user selects
+   */
+  async selectPod(
+    operatorChainService: OperatorChainService,
+    pod: number | undefined,
+    yes: boolean,
+  ): Promise<{pods: PodInfo[]; selectedPod: number}> {
+    this.log('Checking pods available...')
+    const pods: PodInfo[] = await operatorChainService.getPods()
+    this.log(`Total Pods: ${pods.length}`)
+    const recommendedPod: PodInfo | undefined = operatorChainService.recommendPod(pods)
+    if (recommendedPod !== undefined) {
+      this.log(
+        `Recommended pod: ${recommendedPod.pod} with ${
+          recommendedPod.operators
+        } operators, currently requires ${formatUnits(recommendedPod.current, 'ether')} HLG to bond`,
+      )
+    }
+
+    if (pod) {
+      return {pods, selectedPod: pod}
+    }
+
+    if (yes) {
+      if (recommendedPod === undefined) {
+        throw new Error('No pod has room for another operator')
+      }
+
+      return {pods, selectedPod: recommendedPod.pod}
+    }
+
+    const podChoices: string[] = pods.map(podInfo => {
+      return `${podInfo.pod} - ${formatUnits(podInfo.current, 'ether')} HLG - ${podInfo.operators} operators${
+        podInfo.pod === recommendedPod?.pod ? ' (recommended)' : ''
+      }`
+    })
+    const prompt: any = await inquirer.prompt([
+      {
+        name: 'pod',
+        message: 'Enter the pod number to join',
+        type: 'list',
+        choices: podChoices,
+        default: recommendedPod === undefined ? undefined : recommendedPod.pod - 1,
+      },
+    ])
+    return {pods, selectedPod: Number.parseInt(prompt.pod.split(' - ')[0], 10)}
+  }
+
+  /**
+   * The amount passed as a flag, the current bond of the pod with --yes, or the amount the user enters
+   */
+  async resolveBondAmount(currentBond: BigNumber, amount: number | undefined, yes: boolean): Promise<BigNumber> {
+    if (amount) {
+      return toLong18(amount)
+    }
+
+    if (yes) {
+      return currentBond
+    }
+
+    this.log(`Enter an amount greater or equal to: ${formatUnits(currentBond, 'ether')} to bond.`)
+    const prompt: any = await inquirer.prompt([
+      {
+        name: 'amount',
+        message: `Enter the amount of tokens to deposit (Units in ether)`,
+        type: 'number',
+        validate: async (input: number) => {
+          const inputBN = BigNumber.from(toLong18(input))
+          if (typeof input === 'number' && input > 0 && inputBN.gte(currentBond)) {
+            return true
+          }
+
+          return 'Input is not a valid bond amount'
+        },
+      },
+    ])
+    return toLong18(prompt.amount)
+  }
+
+  /**
+   * The operator contract pulls the bond from the wallet, so it needs to be allowed to spend it
+   */
+  async ensureAllowance(
+    tokenChainService: TokenChainService,
+    walletAddress: string,
+    operatorAddress: string,
+    bondAmount: BigNumber,
+    yes: boolean,
+  ): Promise<void> {
+    const allowance: BigNumber = await tokenChainService.allowance(walletAddress, operatorAddress)
+    if (allowance.gte(bondAmount)) {
+      return
+    }
+
+    this.log(
+      `The operator contract is allowed to spend ${formatUnits(allowance, 'ether')} HLG, approving ${formatUnits(
+        bondAmount,
+        'ether',
+      )} HLG`,
+    )
+    if (!yes) {
+      const prompt: any = await inquirer.prompt([
+        {
+          name: 'continue',
+          message: 'Would you like to approve the operator contract to spend the bond amount?',
+          type: 'confirm',
+          default: true,
+        },
+      ])
+      if (!prompt.continue) {
+        this.log('Dropping command, no blockchain transactions executed')
+        this.exit()
+      }
+    }
+
+    const approveReceipt: TransactionReceipt | null = await tokenChainService.approve(operatorAddress, bondAmount)
+    if (approveReceipt === null) {
+      throw new Error('Could not confirm the success of the approval transaction.')
+    }
   }
 }
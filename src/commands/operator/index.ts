@@ -1,4 +1,5 @@
-import {TransactionReceipt} from '@ethersproject/abstract-provider'
+import {Log, TransactionReceipt} from '@ethersproject/abstract-provider'
+import {Contract} from '@ethersproject/contracts'
 import {Environment} from '@holographxyz/environment'
 import {CliUx, Flags} from '@oclif/core'
 import color from '@oclif/color'
@@ -25,16 +26,32 @@ import {
   replayFlag,
   processBlockRange,
   OperatorMode,
+  DEFAULT_DRAIN_TIMEOUT,
 } from '../../utils/network-monitor'
 import {HealthCheck} from '../../base-commands/healthcheck'
-import {ensureConfigFileIsValid} from '../../utils/config'
+import {OperatorControlStatus, OperatorController} from '../../types/control-api'
+import {ConfigFile, ConfigNetwork, ConfigNetworks, ensureConfigFileIsValid} from '../../utils/config'
 import ApiService, {HOLOGRAPH_VERSION_ENV} from '../../services/api-service'
 
 import {shouldSync, syncFlag} from '../../flags/sync.flag'
 import {BlockHeightOptions, blockHeightFlag} from '../../flags/update-block-height.flag'
+import {controlApiFlag} from '../../flags/control-api.flag'
 
 dotenv.config()
 
+// Interval between checks of the unconfirmed transactions left by the last run, in milliseconds
+const PENDING_TRANSACTION_CHECK_INTERVAL = 15_000
+// Interval between checks of the wallet balance on every network, in milliseconds
+const DEFAULT_BALANCE_CHECK_INTERVAL = 60_000
+// Time to wait before simulating again a job that is not ours to execute yet, in milliseconds
+const NOT_OUR_TURN_DEFERRAL = 10_000
+// Blocks scanned on startup for jobs that are still open, unless the flag or the network config set it
+const DEFAULT_BACKFILL_BLOCKS = 5000
+// Jobs executed at the same time on each network when neither the flag nor the network config set it
+const DEFAULT_JOB_CONCURRENCY = 1
+// Blocks requested per getLogs call while backfilling, most RPC providers cap the range of a single call
+const BACKFILL_CHUNK_SIZE = 1000
+
 /*
   NEED TO CHECK
 */
@@ -42,10 +59,48 @@ import * as fs from 'fs-extra'
 import * as path from 'node:path'
 import * as inquirer from 'inquirer'
 import {BigNumber} from '@ethersproject/bignumber'
+import {formatUnits} from '@ethersproject/units'
 import {GasPricing} from '../../utils/gas'
-import {checkOptionFlag} from '../../utils/validation'
+import {checkOptionFlag, portValidator} from '../../utils/validation'
 import {OperatorJobAwareCommand, OperatorJob} from '../../utils/operator-job'
-import {IntrinsicGasTooLowError} from '../../utils/errors'
+import {
+  getOperatorJobJournalPath,
+  OperatorJobJournal,
+  OperatorJobJournalEntryType,
+} from '../../utils/operator-job-journal'
+import {
+  ControlApiRequestError,
+  IntrinsicGasTooLowError,
+  JobSimulationRevertError,
+  TransactionRevertedError,
+} from '../../utils/errors'
+import {
+  availableOperatorJobEventFragment,
+  decodeAvailableOperatorJobEvent,
+  finishedOperatorJobEventFragment,
+  iface,
+  targetEvents,
+} from '../../events/events'
+import {DeadLetterStore, getDeadLetterFilePath} from '../../utils/job-retry'
+import {MetricsRegistry} from '../../utils/metrics'
+import {createExecutionLockBackend, ExecutionLockBackendType} from '../../utils/execution-lock'
+import {LeaderElection} from '../../utils/leader-election'
+import {AlertEventType, AlertSeverity, Alerting} from '../../utils/alerting'
+import {JobSimulation, JobSimulationOutcome, simulateOperatorJob} from '../../utils/job-simulation'
+import {DecisionLog, DecisionLogEntryType, getDecisionLogPath} from '../../utils/decision-log'
+import {isReplayEnabled} from '../../utils/replay'
+import {
+  getPendingTransactionsFilePath,
+  PendingTransaction,
+  PendingTransactionStore,
+} from '../../utils/pending-transactions'
+import {
+  createJobSelectionStrategy,
+  getMinimumGasPrice,
+  JobSelection,
+  JobSelectionStrategy,
+  JobSelectionStrategyType,
+} from '../../utils/job-selection'
 /*
   END NEED TO CHECK
 */
@@ -54,7 +109,7 @@ import {IntrinsicGasTooLowError} from '../../utils/errors'
  * Operator
  * Description: The primary command for operating jobs on the Holograph network.
  */
-export default class Operator extends OperatorJobAwareCommand {
+export default class Operator extends OperatorJobAwareCommand implements OperatorController {
   static description = 'Listen for jobs and execute jobs.'
   static examples = ['$ <%= config.bin %> <%= command.id %> --networks goerli fuji mumbai --mode=auto --sync']
 
@@ -76,12 +131,55 @@ export default class Operator extends OperatorJobAwareCommand {
       description: 'Enable greedy mode which will retry failed jobs with a higher gas limit in order to execute',
       default: false,
     }),
+    concurrency: Flags.integer({
+      description:
+        'The number of jobs executed at the same time on each network, overrides the network config. Defaults to 1',
+      min: 1,
+    }),
+    'job-selection': Flags.string({
+      description: 'The strategy used to pick the next job to execute, overrides the operator config',
+      options: Object.values(JobSelectionStrategyType),
+    }),
     ...syncFlag,
     ...blockHeightFlag,
     ...networksFlag,
     ...replayFlag,
     ...processBlockRange,
+    'drain-timeout': Flags.integer({
+      description: 'Seconds to wait on shutdown for in-flight transactions to confirm, before saving them and exiting',
+      default: DEFAULT_DRAIN_TIMEOUT / 1000,
+      min: 0,
+    }),
+    'execution-lock': Flags.string({
+      description:
+        'Elect a single replica to execute jobs, among operators sharing the wallet, through this lock backend',
+      options: Object.values(ExecutionLockBackendType),
+    }),
+    'execution-lock-location': Flags.string({
+      description:
+        'Directory of the file locks, or redis://host:port url of the lock server. Defaults to the locks directory in the config directory',
+      dependsOn: ['execution-lock'],
+    }),
+    'decision-log': Flags.string({
+      description: 'JSONL file that simulate mode records its decisions in, defaults to one in the config directory',
+    }),
+    'backfill-blocks': Flags.integer({
+      description:
+        'Blocks scanned on startup for jobs that are still open, when starting from the latest block. Overrides the network config, defaults to 5000. Set to 0 to disable',
+      min: 0,
+    }),
+    'unconfirmed-jobs': Flags.boolean({
+      description:
+        'Pick up jobs as soon as they are made available, without waiting for the confirmations of the network',
+      default: false,
+    }),
+    'balance-check-interval': Flags.integer({
+      description: 'Seconds between checks of the wallet balance on every network',
+      default: DEFAULT_BALANCE_CHECK_INTERVAL / 1000,
+      min: 10,
+    }),
     ...HealthCheck.flags,
+    ...controlApiFlag,
   }
 
   private isJobBeingExecuted: {[jobHash: string]: boolean} = {}
@@ -102,6 +200,26 @@ export default class Operator extends OperatorJobAwareCommand {
    */
   operatorMode: OperatorMode = OperatorMode.listen
   jobsFile!: string
+  jobJournalFile!: string
+  jobSelectionStrategy!: JobSelectionStrategy
+  // Set when the concurrency flag is passed, it then wins over the network config
+  jobConcurrency?: number
+  jobsInFlight: {[network: string]: Set<string>} = {}
+  pausedNetworks: Set<string> = new Set()
+  // Jobs approved through the control API, in manual mode
+  approvedJobs: Set<string> = new Set()
+  controlApiEnabled = false
+  leaderElection?: LeaderElection
+  // Transactions restored from the last run that are still unconfirmed, with the time they were last checked
+  restoredPendingTransactions: {[key: string]: number} = {}
+  walletBalances: {[network: string]: BigNumber} = {}
+  // Networks paused for lack of funds, with the balance needed to execute their next job
+  balancePausedNetworks: {[network: string]: BigNumber} = {}
+  balanceMonitor?: NodeJS.Timer
+  decisionLogFile!: string
+  decisionLog?: DecisionLog
+  // Jobs decided on in simulate mode, settled once there is nothing left to decide for them
+  simulatedJobs: {[jobHash: string]: {ourTurnAt?: number; settled: boolean}} = {}
 
   /**
    * Command Entry Point
@@ -115,19 +233,40 @@ export default class Operator extends OperatorJobAwareCommand {
       this.updateBlockHeight = flags.updateBlockHeight
       const processBlockRange = flags['process-block-range']
       this.legacyBlocks = !processBlockRange
+      this.jobConcurrency = flags.concurrency
 
       this.operatorMode = await this.setOperatorMode(flags.mode)
 
+      if (flags.controlApi) {
+        if (!flags.controlApiToken) {
+          this.error('The control API requires a token, set it with --controlApiToken or HOLOGRAPH_CONTROL_API_TOKEN')
+        }
+
+        if (!portValidator(flags.controlApiPort || 6001)) {
+          this.error('The control API port should be in the [3000, 65535] range.')
+        }
+
+        this.controlApiEnabled = true
+      }
+
       const {environment, userWallet, configFile} = await this.loadConfigurations(flags.unsafePassword)
       this.environment = environment
 
-      if (flags.replay !== '0') {
+      if (isReplayEnabled(flags.replay)) {
         this.log('Replay flag enabled, will not load or save block heights.')
         this.updateBlockHeight = BlockHeightOptions.DISABLE
       }
 
       await this.authenticateApi()
       this.initializeNetworkMonitor(flags, userWallet, configFile)
+      this.networkMonitor.drainTimeout = flags['drain-timeout'] * 1000
+      this.decisionLogFile =
+        flags['decision-log'] ?? getDecisionLogPath(this.config.configDir, this.networkMonitor.environment)
+      if (this.operatorMode === OperatorMode.simulate) {
+        this.log(`Simulate mode enabled, no transactions will be sent. Decisions are logged to ${this.decisionLogFile}`)
+      }
+
+      this.initializeJobSelectionStrategy(flags['job-selection'], configFile)
       await this.manageBlockHeights(flags)
       this.setApiServiceLogs()
 
@@ -135,17 +274,37 @@ export default class Operator extends OperatorJobAwareCommand {
         this.resetBlockHeights()
       }
 
+      // Networks without a block height to resume from start from the latest block, and miss the jobs made before it
+      const networksToBackfill: string[] = isReplayEnabled(flags.replay)
+        ? []
+        : this.networkMonitor.networks.filter(network => !(this.networkMonitor.latestBlockHeight[network] > 0))
+
       this.operatorStatus.address = userWallet.address.toLowerCase()
       this.networkMonitor.exitCallback = this.exitCallback.bind(this)
+      this.networkMonitor.transactionReplacementCallback = this.recordTransactionReplacement.bind(this)
+
+      if (flags['execution-lock'] !== undefined) {
+        await this.startLeaderElection(
+          flags['execution-lock'] as ExecutionLockBackendType,
+          flags['execution-lock-location'],
+        )
+      }
 
       await this.startNetworkMonitor(flags)
       await this.processSavedJobs()
+      await this.resolvePendingTransactions()
+      await this.backfillOperatorJobs(networksToBackfill, flags['backfill-blocks'])
       this.scheduleJobsProcessing()
+      this.startBalanceMonitoring(flags['balance-check-interval'] * 1000)
 
       if (flags.healthCheck) {
         await this.startHealthCheckServer(flags.healthCheckPort || 6000)
       }
 
+      if (this.controlApiEnabled) {
+        await this.startControlApiServer(flags.controlApiPort || 6001, flags.controlApiToken!)
+      }
+
       this.log(`Operator started running successfully.`)
     } catch (error) {
       this.handleErrorAndExit('An error occurred in the run method', error)
@@ -206,6 +365,7 @@ export default class Operator extends OperatorJobAwareCommand {
       networks: flags.networks,
       debug: this.debug,
       processLogs: this.processLogs,
+      processHead: flags['unconfirmed-jobs'] ? this.processHeadBlock : undefined,
       userWallet,
       lastBlockFilename: 'operator-blocks.json',
       replay: flags.replay,
@@ -215,6 +375,21 @@ export default class Operator extends OperatorJobAwareCommand {
       greedy: flags.greedy,
     })
     this.jobsFile = path.join(this.config.configDir, this.networkMonitor.environment + '.operator-job-details.json')
+    this.jobJournalFile = getOperatorJobJournalPath(this.config.configDir, this.networkMonitor.environment)
+    this.deadLetterStore = new DeadLetterStore(
+      getDeadLetterFilePath(this.config.configDir, this.networkMonitor.environment),
+    )
+    this.networkMonitor.pendingTransactionStore = new PendingTransactionStore(
+      getPendingTransactionsFilePath(this.config.configDir, this.networkMonitor.environment),
+    )
+  }
+
+  initializeJobSelectionStrategy(strategyFlag: string | undefined, configFile: ConfigFile): void {
+    const strategyType = (strategyFlag ??
+      configFile.operator?.jobSelectionStrategy ??
+      JobSelectionStrategyType.default) as JobSelectionStrategyType
+    this.jobSelectionStrategy = createJobSelectionStrategy(strategyType, this.networkMonitor)
+    this.log(`Using ${this.jobSelectionStrategy.type} job selection strategy`)
   }
 
   async manageBlockHeights(flags: any): Promise<void> {
@@ -253,72 +428,678 @@ export default class Operator extends OperatorJobAwareCommand {
 
   async startNetworkMonitor(flags: any): Promise<void> {
     CliUx.ux.action.start(`Starting operator in mode: ${OperatorMode[this.operatorMode]}`)
-    const continuous = flags.replay === '0'
+    const continuous = !isReplayEnabled(flags.replay)
     await this.networkMonitor.run(continuous, undefined, this.filterBuilder2)
     CliUx.ux.action.stop('🚀')
   }
 
   async processSavedJobs(): Promise<void> {
     try {
-      // Check if file exists
-      if (await fs.pathExists(this.jobsFile)) {
-        this.log('Saved jobs file exists, parsing it for valid/active jobs.')
-        // if file exists, need to add it to list of jobs to process
-        this.operatorJobs = (await fs.readJson(this.jobsFile)) as {[key: string]: OperatorJob}
-
-        // Need to check each job and make sure it's still valid
-        for (const jobHash of Object.keys(this.operatorJobs)) {
-          this.operatorJobs[jobHash].gasLimit = BigNumber.from(this.operatorJobs[jobHash].gasLimit)
-          this.operatorJobs[jobHash].gasPrice = BigNumber.from(this.operatorJobs[jobHash].gasPrice)
-          this.operatorJobs[jobHash].jobDetails.startTimestamp = BigNumber.from(
-            this.operatorJobs[jobHash].jobDetails.startTimestamp,
-          )
+      const jobJournal = new OperatorJobJournal(this.jobJournalFile)
+      if (await fs.pathExists(this.jobJournalFile)) {
+        this.log('Job journal exists, replaying it for valid/active jobs.')
+        const {operatorJobs, failedOperatorJobs, executedOperatorJobs} = jobJournal.replay()
+        // Jobs decoded since the network monitor started are more recent than the journal
+        this.operatorJobs = {...operatorJobs, ...this.operatorJobs}
+        this.failedOperatorJobs = {...failedOperatorJobs, ...this.failedOperatorJobs}
+        this.executedOperatorJobs = {...executedOperatorJobs, ...this.executedOperatorJobs}
+      } else {
+        this.log('Job journal not found (not loaded).')
+      }
 
-          // If job is still valid, it will stay in object, otherwise it will be removed
-          await this.checkJobStatus(jobHash)
-          this.log('Saved jobs parsing completed.')
+      // Jobs saved by older versions of the operator on exit are merged into the journal once
+      if (await fs.pathExists(this.jobsFile)) {
+        this.log('Legacy saved jobs file exists, importing it into the job journal.')
+        const savedJobs = (await fs.readJson(this.jobsFile)) as {[key: string]: OperatorJob}
+        for (const jobHash of Object.keys(savedJobs)) {
+          savedJobs[jobHash].gasLimit = BigNumber.from(savedJobs[jobHash].gasLimit)
+          savedJobs[jobHash].gasPrice = BigNumber.from(savedJobs[jobHash].gasPrice)
+          savedJobs[jobHash].jobDetails.startTimestamp = BigNumber.from(savedJobs[jobHash].jobDetails.startTimestamp)
+          this.operatorJobs[jobHash] = savedJobs[jobHash]
         }
-      } else {
-        this.log('Saved jobs file not found (not loaded).')
+
+        await fs.remove(this.jobsFile)
       }
+
+      // Start from a compacted journal and record every change from here on
+      jobJournal.compact(this.getJobJournalState())
+      jobJournal.claimOwnership()
+      this.jobJournal = jobJournal
+
+      this.log(
+        `Loaded ${Object.keys(this.operatorJobs).length} saved jobs and ${
+          Object.keys(this.failedOperatorJobs).length
+        } failed jobs.`,
+      )
+
+      // Need to check each job and make sure it's still valid
+      // If job is still valid, it will stay in object, otherwise it will be removed
+      for (const jobHash of Object.keys(this.operatorJobs)) {
+        await this.checkJobStatus(jobHash)
+      }
+
+      this.log('Saved jobs parsing completed.')
     } catch (error) {
       this.handleErrorAndExit('An error occurred while processing saved jobs', error)
     }
   }
 
+  /**
+   * Checks the transactions that the last run left unconfirmed on shutdown
+   * Their jobs are not executed again until the transaction, or another one with the same nonce, is mined
+   */
+  async resolvePendingTransactions(): Promise<void> {
+    const pendingTransactionStore = this.networkMonitor.pendingTransactionStore!
+    const pendingTransactions: PendingTransaction[] = pendingTransactionStore.read()
+    if (pendingTransactions.length === 0) {
+      return
+    }
+
+    this.log(`Checking ${pendingTransactions.length} transactions left unconfirmed by the last run.`)
+    for (const pendingTransaction of pendingTransactions) {
+      if (!(await this.checkPendingTransaction(pendingTransaction))) {
+        const key = `${pendingTransaction.network}:${pendingTransaction.nonce}`
+        this.networkMonitor.inFlightTransactions[key] = pendingTransaction
+        this.restoredPendingTransactions[key] = Date.now()
+      }
+    }
+
+    pendingTransactionStore.write(Object.values(this.networkMonitor.inFlightTransactions))
+  }
+
+  /**
+   * An explicitly passed backfill-blocks flag wins over the network config
+   */
+  getBackfillBlocks(network: string, flagBackfillBlocks?: number): number {
+    const networkConfig = this.networkMonitor.configFile.networks[network as keyof ConfigNetworks] as
+      | ConfigNetwork
+      | undefined
+    return flagBackfillBlocks ?? networkConfig?.backfillBlocks ?? DEFAULT_BACKFILL_BLOCKS
+  }
+
+  /**
+   * Looks for jobs made available before the operator started, that no operator has finished yet
+   * Every one of them is checked on the operator contract, the ones that are still live are added to the jobs
+   */
+  async backfillOperatorJobs(networks: string[], flagBackfillBlocks?: number): Promise<void> {
+    for (const network of networks) {
+      const backfillBlocks = this.getBackfillBlocks(network, flagBackfillBlocks)
+      if (backfillBlocks === 0) {
+        continue
+      }
+
+      try {
+        const openJobs = await this.findOpenOperatorJobs(network, backfillBlocks)
+        this.networkMonitor.structuredLog(
+          network,
+          `Found ${Object.keys(openJobs).length} open jobs in the last ${backfillBlocks} blocks`,
+        )
+        const contract: Contract = this.networkMonitor.operatorContract.connect(this.networkMonitor.providers[network])
+        for (const [jobHash, {payload, txHash, blockNumber}] of Object.entries(openJobs)) {
+          const jobDetails: any[] = await contract.getJobDetails(jobHash)
+          // Finished jobs are deleted from the contract, which leaves their details zeroed
+          if (!(Number(jobDetails[3]) > 0)) {
+            continue
+          }
+
+          const tags: (string | number)[] = [blockNumber, this.networkMonitor.randomTag()]
+          this.networkMonitor.structuredLog(network, `Backfilling open job ${jobHash}`, tags)
+          await this.decodeOperatorJob(network, jobHash, payload, tags, txHash)
+        }
+      } catch (error: any) {
+        this.networkMonitor.structuredLogError(network, `Failed backfilling open jobs: ${error.message}`)
+      }
+    }
+  }
+
+  /**
+   * Returns the jobs made available in the last blocks of the network that no FinishedOperatorJob event closed,
+   * leaving out the ones the operator already knows of
+   */
+  async findOpenOperatorJobs(
+    network: string,
+    backfillBlocks: number,
+  ): Promise<{[jobHash: string]: {payload: string; txHash: string; blockNumber: number}}> {
+    const provider = this.networkMonitor.providers[network]
+    const latestBlock: number = await provider.getBlockNumber()
+    const openJobs: {[jobHash: string]: {payload: string; txHash: string; blockNumber: number}} = {}
+    for (
+      let fromBlock = Math.max(latestBlock - backfillBlocks, 0);
+      fromBlock <= latestBlock;
+      fromBlock += BACKFILL_CHUNK_SIZE
+    ) {
+      const toBlock = Math.min(fromBlock + BACKFILL_CHUNK_SIZE - 1, latestBlock)
+      const logs: Log[] | null = await this.networkMonitor.retry(network, async () =>
+        provider.getLogs({
+          address: this.networkMonitor.operatorAddress,
+          fromBlock,
+          toBlock,
+          topics: [[targetEvents.AvailableOperatorJob, targetEvents.FinishedOperatorJob]],
+        }),
+      )
+      if (logs === null) {
+        throw new Error(`Could not get the logs of blocks ${fromBlock} to ${toBlock}`)
+      }
+
+      for (const log of logs) {
+        if (log.topics[0] === targetEvents.AvailableOperatorJob) {
+          const [jobHash, payload] = iface.decodeEventLog(availableOperatorJobEventFragment, log.data, log.topics)
+          openJobs[(jobHash as string).toLowerCase()] = {
+            payload: (payload as string).toLowerCase(),
+            txHash: log.transactionHash,
+            blockNumber: log.blockNumber,
+          }
+        } else {
+          const [jobHash] = iface.decodeEventLog(finishedOperatorJobEventFragment, log.data, log.topics)
+          delete openJobs[(jobHash as string).toLowerCase()]
+        }
+      }
+    }
+
+    for (const jobHash of Object.keys(openJobs)) {
+      if (jobHash in this.operatorJobs || jobHash in this.failedOperatorJobs || jobHash in this.executedOperatorJobs) {
+        delete openJobs[jobHash]
+      }
+    }
+
+    return openJobs
+  }
+
+  /**
+   * Adds the jobs made available in a block that is not confirmed yet, the confirmed block adds them again as a refresh
+   * A job from a block that gets reorged out no longer validates, and is removed when it is checked
+   */
+  async processHeadBlock(network: string, blockNumber: number): Promise<void> {
+    const provider = this.networkMonitor.providers[network]
+    const logs: Log[] | null = await this.networkMonitor.retry(network, async () =>
+      provider.getLogs({
+        address: this.networkMonitor.operatorAddress,
+        fromBlock: blockNumber,
+        toBlock: blockNumber,
+        topics: [targetEvents.AvailableOperatorJob],
+      }),
+    )
+    for (const log of logs ?? []) {
+      const [jobHash, payload] = iface.decodeEventLog(availableOperatorJobEventFragment, log.data, log.topics)
+      const operatorJobHash: string = (jobHash as string).toLowerCase()
+      if (operatorJobHash in this.operatorJobs || operatorJobHash in this.executedOperatorJobs) {
+        continue
+      }
+
+      const tags: (string | number)[] = [blockNumber, this.networkMonitor.randomTag()]
+      this.networkMonitor.structuredLog(network, `Found a new job ${operatorJobHash} in an unconfirmed block`, tags)
+      await this.decodeOperatorJob(
+        network,
+        operatorJobHash,
+        (payload as string).toLowerCase(),
+        tags,
+        log.transactionHash,
+      )
+    }
+  }
+
+  /**
+   * Returns true once the transaction, or another one with the same nonce, is mined
+   */
+  async checkPendingTransaction(pendingTransaction: PendingTransaction): Promise<boolean> {
+    const {network, nonce, hashes, jobHash} = pendingTransaction
+    const provider = this.networkMonitor.providers[network]
+    if (provider === undefined) {
+      this.log(`Dropping unconfirmed transaction ${hashes[0]} on ${network}, the operator is not running on it.`)
+      return true
+    }
+
+    try {
+      for (const hash of hashes) {
+        const receipt: TransactionReceipt | null = await provider.getTransactionReceipt(hash)
+        if (receipt !== null) {
+          this.networkMonitor.structuredLog(
+            network,
+            `Unconfirmed transaction ${hash} with nonce ${nonce} was mined with status ${receipt.status}`,
+          )
+          if (receipt.status === 1 && jobHash !== undefined && jobHash in this.operatorJobs) {
+            this.removeOperatorJob(jobHash, OperatorJobJournalEntryType.executed)
+          }
+
+          return true
+        }
+      }
+
+      const latestNonce: number = await provider.getTransactionCount(this.operatorStatus.address, 'latest')
+      if (latestNonce > nonce) {
+        this.networkMonitor.structuredLog(
+          network,
+          `Nonce ${nonce} of unconfirmed transaction ${hashes[0]} was used by another transaction`,
+        )
+        return true
+      }
+    } catch (error: any) {
+      this.networkMonitor.structuredLogError(
+        network,
+        `Failed checking unconfirmed transaction ${hashes[0]}: ${error.message}`,
+      )
+    }
+
+    this.networkMonitor.structuredLog(
+      network,
+      `Transaction ${hashes[0]} with nonce ${nonce} is still unconfirmed${
+        jobHash === undefined ? '' : `, job ${jobHash} waits for it`
+      }`,
+    )
+    return false
+  }
+
+  async recheckRestoredPendingTransactions(network: string): Promise<void> {
+    for (const key of Object.keys(this.restoredPendingTransactions)) {
+      const pendingTransaction: PendingTransaction | undefined = this.networkMonitor.inFlightTransactions[key]
+      if (
+        pendingTransaction === undefined ||
+        pendingTransaction.network !== network ||
+        Date.now() - this.restoredPendingTransactions[key] < PENDING_TRANSACTION_CHECK_INTERVAL
+      ) {
+        continue
+      }
+
+      this.restoredPendingTransactions[key] = Date.now()
+      if (await this.checkPendingTransaction(pendingTransaction)) {
+        delete this.networkMonitor.inFlightTransactions[key]
+        delete this.restoredPendingTransactions[key]
+      }
+    }
+  }
+
+  getJobConcurrency(network: string): number {
+    const networkConfig = this.networkMonitor.configFile.networks[network as keyof ConfigNetworks] as
+      | ConfigNetwork
+      | undefined
+    return this.jobConcurrency ?? networkConfig?.concurrency ?? DEFAULT_JOB_CONCURRENCY
+  }
+
   scheduleJobsProcessing(): void {
     for (const network of this.networkMonitor.networks) {
-      // This starts processing jobs after an initial delay (currently set to 0 seconds)
-      setTimeout(async () => {
-        // eslint-disable-next-line no-constant-condition
-        while (true) {
-          try {
-            await this.processOperatorJobs(network)
-            // eslint-disable-next-line no-promise-executor-return
-            await new Promise(resolve => setTimeout(resolve, 1000)) // Waits for 1 second
-          } catch (error) {
-            console.error(`Error processing jobs for network ${network}:`, error)
+      // Every worker executes one job at a time, so the number of workers bounds the jobs in flight on the network
+      const concurrency = this.getJobConcurrency(network)
+      this.jobsInFlight[network] = new Set()
+      this.networkMonitor.structuredLog(network, `Processing up to ${concurrency} jobs at a time`)
+
+      for (let worker = 0; worker < concurrency; worker++) {
+        // This starts processing jobs after an initial delay (currently set to 0 seconds)
+        setTimeout(async () => {
+          // eslint-disable-next-line no-constant-condition
+          while (true) {
+            try {
+              await this.processOperatorJobs(network)
+              // eslint-disable-next-line no-promise-executor-return
+              await new Promise(resolve => setTimeout(resolve, 1000)) // Waits for 1 second
+            } catch (error) {
+              console.error(`Error processing jobs for network ${network}:`, error)
+            }
           }
-        }
-      }, 0) // You can increase this value for a longer initial delay
+        }, 0) // You can increase this value for a longer initial delay
+      }
+    }
+  }
+
+  startBalanceMonitoring(interval: number): void {
+    this.checkWalletBalances()
+    this.balanceMonitor = setInterval(this.checkWalletBalances.bind(this), interval)
+  }
+
+  async checkWalletBalances(): Promise<void> {
+    for (const network of this.networkMonitor.networks) {
+      await this.checkWalletBalance(network)
+    }
+  }
+
+  /**
+   * Refreshes the wallet balance of a network, and resumes the network once it can pay for its next job again
+   */
+  async checkWalletBalance(network: string): Promise<void> {
+    try {
+      const {balance} = await this.networkMonitor.checkWalletBalance(network, this.operatorStatus.address)
+      this.walletBalances[network] = balance
+      const requiredBalance: BigNumber | undefined = this.balancePausedNetworks[network]
+      if (requiredBalance !== undefined && balance.gte(requiredBalance)) {
+        delete this.balancePausedNetworks[network]
+        this.networkMonitor.structuredLog(
+          network,
+          `Wallet balance of ${formatUnits(balance, 'ether')} covers the next job again, job execution resumed`,
+        )
+      }
+    } catch (error: any) {
+      this.networkMonitor.structuredLogError(network, `Failed checking the wallet balance: ${error.message}`)
+    }
+  }
+
+  /**
+   * Pauses the network when the wallet can not pay for the job at the given gas limit and its gas price
+   * The balance monitor resumes the network once the wallet is topped up
+   */
+  async ensureBalanceForJob(network: string, job: OperatorJob, gasLimit: BigNumber): Promise<boolean> {
+    const cost: BigNumber = gasLimit.mul(BigNumber.from(job.gasPrice))
+    const balance: BigNumber = await this.networkMonitor.getBalance({
+      network,
+      walletAddress: this.operatorStatus.address,
+      attempts: 3,
+    })
+    this.walletBalances[network] = balance
+    if (balance.gte(cost)) {
+      return true
+    }
+
+    this.balancePausedNetworks[network] = cost
+    const message = `Wallet balance of ${formatUnits(balance, 'ether')} can not pay the ${formatUnits(
+      cost,
+      'ether',
+    )} that job ${job.hash} may cost, job execution paused until the wallet is topped up`
+    this.networkMonitor.structuredLog(network, this.errorColor(message), job.tags)
+    Alerting.Instance.emit({
+      type: AlertEventType.lowWalletBalance,
+      severity: AlertSeverity.critical,
+      network,
+      message,
+      details: {
+        address: this.operatorStatus.address,
+        balance: formatUnits(balance, 'ether'),
+        required: formatUnits(cost, 'ether'),
+        jobHash: job.hash,
+      },
+      dedupKey: `${AlertEventType.lowWalletBalance}:${network}:paused`,
+    })
+    return false
+  }
+
+  /**
+   * Writes what the operator would have done with the job to the decision log
+   * Jobs that were executable or expected to revert are not selected again, they are followed until they finish
+   */
+  recordDecision(job: OperatorJob, simulation: JobSimulation): void {
+    const now = Date.now()
+    const ourTurn = simulation.outcome === JobSimulationOutcome.executable
+    const simulatedJob = this.simulatedJobs[job.hash] ?? {settled: false}
+    simulatedJob.ourTurnAt = simulatedJob.ourTurnAt ?? (ourTurn ? now : undefined)
+    simulatedJob.settled = ourTurn || simulation.outcome === JobSimulationOutcome.willRevert
+    this.simulatedJobs[job.hash] = simulatedJob
+
+    const gasPrice = BigNumber.from(job.gasPrice)
+    this.getDecisionLog().append({
+      type: DecisionLogEntryType.decision,
+      timestamp: new Date(now).toISOString(),
+      network: job.network,
+      jobHash: job.hash,
+      strategy: this.jobSelectionStrategy.type,
+      outcome: simulation.outcome,
+      reason: simulation.reason,
+      gasPrice: gasPrice.toString(),
+      gasLimit: simulation.gasLimit?.toString(),
+      estimatedGas: simulation.estimatedGas?.toString(),
+      estimatedCost: simulation.estimatedGas?.mul(gasPrice).toString(),
+      targetTime: new Date(job.targetTime).toISOString(),
+      ourTurn,
+    })
+  }
+
+  /**
+   * Writes the executor of a job that was decided on in simulate mode to the decision log
+   */
+  async recordDecisionOutcome(
+    network: string,
+    jobHash: string,
+    executor: string,
+    interestingLog: InterestingLog,
+  ): Promise<void> {
+    const simulatedJob = this.simulatedJobs[jobHash]
+    delete this.simulatedJobs[jobHash]
+    const blockNumber = interestingLog.transaction.blockNumber as number
+    let blockTimestamp: number | undefined
+    try {
+      blockTimestamp = (await this.networkMonitor.providers[network].getBlock(blockNumber)).timestamp * 1000
+    } catch (error: any) {
+      this.networkMonitor.structuredLogError(network, `Failed getting block ${blockNumber}: ${error.message}`)
+    }
+
+    this.getDecisionLog().append({
+      type: DecisionLogEntryType.finished,
+      timestamp: new Date().toISOString(),
+      network,
+      jobHash,
+      executor: executor.toLowerCase(),
+      transactionHash: interestingLog.transaction.hash,
+      blockNumber,
+      blockTimestamp: blockTimestamp === undefined ? undefined : new Date(blockTimestamp).toISOString(),
+      wouldHaveWon:
+        simulatedJob.ourTurnAt !== undefined &&
+        (blockTimestamp === undefined || simulatedJob.ourTurnAt <= blockTimestamp),
+    })
+  }
+
+  getDecisionLog(): DecisionLog {
+    if (!this.decisionLog) {
+      this.decisionLog = new DecisionLog(this.decisionLogFile)
+    }
+
+    return this.decisionLog
+  }
+
+  /**
+   * Runs the job against the pending block as the operator wallet, and logs what it found
+   */
+  async simulateJob(job: OperatorJob, tags: (string | number)[]): Promise<JobSimulation> {
+    const contract = this.networkMonitor.operatorContract.connect(this.networkMonitor.providers[job.network])
+    const simulation: JobSimulation = await simulateOperatorJob(
+      contract,
+      this.operatorStatus.address,
+      job.payload,
+      BigNumber.from(job.gasPrice),
+    )
+    this.networkMonitor.structuredLog(
+      job.network,
+      simulation.outcome === JobSimulationOutcome.executable
+        ? `Simulation estimated ${simulation.estimatedGas!.toString()} gas, sending with a gas limit of ${simulation.gasLimit!.toString()}`
+        : `Simulation outcome is ${simulation.outcome}: ${simulation.reason}`,
+      tags,
+    )
+    return simulation
+  }
+
+  async startLeaderElection(type: ExecutionLockBackendType, location?: string): Promise<void> {
+    const backend = createExecutionLockBackend(type, location ?? path.join(this.config.configDir, 'locks'))
+    this.leaderElection = new LeaderElection({
+      backend,
+      log: (message: string) => this.networkMonitor.structuredLog(undefined, message),
+      onLeadershipGained: () => this.resyncNonces(),
+    })
+    await this.leaderElection.start()
+    this.networkMonitor.structuredLog(
+      undefined,
+      `Started ${type} leader election as replica ${this.leaderElection.owner}, ${
+        this.leaderElection.isLeader ? 'leading' : 'on standby'
+      }`,
+    )
+  }
+
+  /**
+   * Catches up with the transactions the previous leader sent from the shared wallet, before executing any job
+   * A network whose nonces can not be reconciled now still reconciles on its next reservation
+   */
+  async resyncNonces(): Promise<void> {
+    for (const [network, nonceManager] of Object.entries(this.networkMonitor.nonceManagers)) {
+      nonceManager.reset()
+      try {
+        const {next} = await nonceManager.reconcile()
+        this.networkMonitor.structuredLog(network, `Taking over as leader from nonce ${next}`)
+      } catch (error: any) {
+        this.networkMonitor.structuredLog(network, `Failed to reconcile nonces on taking over: ${error.message}`)
+      }
     }
   }
 
   async startHealthCheckServer(port: number): Promise<void> {
     // Start health check server
     // Can be used to monitor that the operator is online and running
-    await this.config.runHook('healthCheck', {networkMonitor: this.networkMonitor, port})
+    MetricsRegistry.Instance.registerCollector(this.collectQueueMetrics.bind(this))
+    await this.config.runHook('healthCheck', {networkMonitor: this.networkMonitor, healthCheckPort: port})
+  }
+
+  async startControlApiServer(port: number, token: string): Promise<void> {
+    // Start control API server
+    // Can be used to manage the operator without restarting it
+    await this.config.runHook('controlApi', {controller: this, controlApiPort: port, controlApiToken: token})
+  }
+
+  getControlStatus(): OperatorControlStatus {
+    const jobs: OperatorControlStatus['jobs'] = {}
+    for (const network of this.networkMonitor.networks) {
+      jobs[network] = {
+        pending: Object.values(this.operatorJobs).filter(job => job.network === network).length,
+        failed: Object.values(this.failedOperatorJobs).filter(job => job.network === network).length,
+        inFlight: this.jobsInFlight[network]?.size ?? 0,
+      }
+    }
+
+    return {
+      mode: this.operatorMode,
+      networks: this.networkMonitor.networks,
+      pausedNetworks: [...this.pausedNetworks],
+      balancePausedNetworks: Object.keys(this.balancePausedNetworks),
+      approvedJobs: [...this.approvedJobs],
+      jobs,
+    }
+  }
+
+  ensureOperatedNetwork(network: string): void {
+    if (!this.networkMonitor.networks.includes(network)) {
+      throw new ControlApiRequestError(404, `The operator is not running on network ${network}`)
+    }
+  }
+
+  pauseNetwork(network: string): void {
+    this.ensureOperatedNetwork(network)
+    this.pausedNetworks.add(network)
+    this.networkMonitor.structuredLog(network, `Job execution paused through the control API`)
+  }
+
+  resumeNetwork(network: string): void {
+    this.ensureOperatedNetwork(network)
+    this.pausedNetworks.delete(network)
+    this.networkMonitor.structuredLog(network, `Job execution resumed through the control API`)
+  }
+
+  switchOperatorMode(mode: OperatorMode): void {
+    this.networkMonitor.structuredLog(undefined, `Switching operator mode from ${this.operatorMode} to ${mode}`)
+    this.operatorMode = mode
+    if (mode !== OperatorMode.manual) {
+      this.approvedJobs.clear()
+    }
+
+    if (mode !== OperatorMode.simulate) {
+      // Jobs that were only simulated can be executed for real now
+      this.simulatedJobs = {}
+    }
+  }
+
+  async enqueueJob(network: string, txHash: string): Promise<string> {
+    this.ensureOperatedNetwork(network)
+    const receipt: TransactionReceipt | null = await this.networkMonitor.getTransactionReceipt({
+      network,
+      transactionHash: txHash,
+      attempts: 10,
+      canFail: true,
+    })
+    if (receipt === null) {
+      throw new ControlApiRequestError(404, `Could not get the receipt of transaction ${txHash} on ${network}`)
+    }
+
+    const operatorJobEvent: string[] | undefined = decodeAvailableOperatorJobEvent(
+      receipt,
+      this.networkMonitor.operatorAddress,
+    )
+    if (operatorJobEvent === undefined) {
+      throw new ControlApiRequestError(400, `Transaction ${txHash} did not make a job available to the operator`)
+    }
+
+    const [jobHash, payload] = operatorJobEvent
+    const tags: (string | number)[] = [receipt.blockNumber, this.networkMonitor.randomTag()]
+    this.networkMonitor.structuredLog(network, `Enqueuing job ${jobHash} through the control API`, tags)
+    const operatorJob = await this.decodeOperatorJob(network, jobHash, payload, tags, txHash)
+    if (operatorJob === undefined) {
+      throw new ControlApiRequestError(409, `Job ${jobHash} could not be decoded, it may already be executed`)
+    }
+
+    return jobHash
   }
 
-  exitCallback(): void {
-    const jobs: {[key: string]: OperatorJob} = this.operatorJobs
-    for (const jobHash of Object.keys(jobs)) {
-      jobs[jobHash].gasLimit = BigNumber.from(jobs[jobHash].gasLimit).toHexString()
-      jobs[jobHash].gasPrice = BigNumber.from(jobs[jobHash].gasPrice).toHexString()
-      jobs[jobHash].jobDetails.startTimestamp = BigNumber.from(jobs[jobHash].jobDetails.startTimestamp).toHexString()
+  approveJob(jobHash: string): void {
+    if (this.operatorMode !== OperatorMode.manual) {
+      throw new ControlApiRequestError(409, `Jobs only need to be approved in manual mode`)
     }
 
-    fs.writeFileSync(this.jobsFile, JSON.stringify(jobs, undefined, 2))
+    if (!(jobHash in this.operatorJobs)) {
+      throw new ControlApiRequestError(404, `Job ${jobHash} is not waiting to be executed`)
+    }
+
+    this.approvedJobs.add(jobHash)
+    this.networkMonitor.structuredLog(this.operatorJobs[jobHash].network, `Job ${jobHash} approved for execution`)
+  }
+
+  dropJob(jobHash: string): void {
+    const operatorJob: OperatorJob | undefined = this.operatorJobs[jobHash] ?? this.failedOperatorJobs[jobHash]
+    if (operatorJob === undefined) {
+      throw new ControlApiRequestError(404, `No pending or failed job found with hash ${jobHash}`)
+    }
+
+    if (this.isJobBeingExecuted[jobHash]) {
+      throw new ControlApiRequestError(409, `Job ${jobHash} is being executed`)
+    }
+
+    this.removeOperatorJob(jobHash, OperatorJobJournalEntryType.removed)
+    this.approvedJobs.delete(jobHash)
+    this.networkMonitor.structuredLog(operatorJob.network, `Dropped job ${jobHash} through the control API`)
+  }
+
+  retryJob(jobHash: string): void {
+    const operatorJob: OperatorJob | undefined = this.failedOperatorJobs[jobHash]
+    if (operatorJob === undefined) {
+      throw new ControlApiRequestError(404, `No failed job found with hash ${jobHash}`)
+    }
+
+    this.addOperatorJob({...operatorJob, attempts: undefined, nextAttemptTime: undefined})
+    this.networkMonitor.structuredLog(operatorJob.network, `Job ${jobHash} will be retried`)
+  }
+
+  async refreshOperatorStatus(network: string): Promise<boolean> {
+    this.ensureOperatedNetwork(network)
+    return this.updateOperatorStatus(network)
+  }
+
+  collectQueueMetrics(): void {
+    const operatorJobs = MetricsRegistry.Instance.gauge(
+      'holograph_operator_jobs',
+      'Operator jobs waiting to be executed',
+    )
+    const failedOperatorJobs = MetricsRegistry.Instance.gauge(
+      'holograph_failed_operator_jobs',
+      'Operator jobs that failed and are waiting to be reprocessed',
+    )
+    for (const network of this.networkMonitor.networks) {
+      operatorJobs.set({network}, Object.values(this.operatorJobs).filter(job => job.network === network).length)
+      failedOperatorJobs.set(
+        {network},
+        Object.values(this.failedOperatorJobs).filter(job => job.network === network).length,
+      )
+    }
+  }
+
+  async exitCallback(): Promise<void> {
+    // Every change is already in the journal, compacting it just keeps the next replay short
+    this.jobJournal?.compact(this.getJobJournalState())
+    this.jobJournal?.releaseOwnership()
+    if (this.balanceMonitor !== undefined) {
+      clearInterval(this.balanceMonitor)
+    }
+
+    // Hand over to a standby replica right away instead of waiting for the leader lock to expire
+    await this.leaderElection?.stop()
   }
 
   bloomFilterAddress = (address: string): Pick<BloomFilter, 'bloomType' | 'bloomValue' | 'bloomValueHashed'> => ({
@@ -479,6 +1260,7 @@ export default class Operator extends OperatorJobAwareCommand {
           availableOperatorJobEvent.jobHash,
           availableOperatorJobEvent.payload,
           tags,
+          interestingLog.transaction.hash,
         )
       }
     } catch (error: any) {
@@ -506,10 +1288,22 @@ export default class Operator extends OperatorJobAwareCommand {
           `Operator executed job ${finishedOperatorJobEvent.jobHash}`,
           tags,
         )
-        // remove job from operatorJobs if it exists
-        if (finishedOperatorJobEvent.jobHash in this.operatorJobs) {
+        if (finishedOperatorJobEvent.jobHash in this.simulatedJobs) {
+          await this.recordDecisionOutcome(
+            job.network,
+            finishedOperatorJobEvent.jobHash,
+            finishedOperatorJobEvent.operator,
+            interestingLog,
+          )
+        }
+
+        // remove job from operatorJobs (or failedOperatorJobs) if it exists
+        if (
+          finishedOperatorJobEvent.jobHash in this.operatorJobs ||
+          finishedOperatorJobEvent.jobHash in this.failedOperatorJobs
+        ) {
           this.networkMonitor.structuredLog(job.network, `Removing job from list of available jobs`, tags)
-          delete this.operatorJobs[finishedOperatorJobEvent.jobHash]
+          this.removeOperatorJob(finishedOperatorJobEvent.jobHash, OperatorJobJournalEntryType.removed)
         }
 
         // update operator details, in case operator was selected for a job, or any data changed
@@ -556,7 +1350,13 @@ export default class Operator extends OperatorJobAwareCommand {
 
     const isJobExecutedSuccessfully = await this.executeJob(jobHash, tags)
 
-    if (isJobExecutedSuccessfully) {
+    if (!isJobExecutedSuccessfully && this.simulatedJobs[jobHash]?.settled) {
+      this.networkMonitor.structuredLog(
+        network,
+        `Job with hash: ${jobHash} was simulated, waiting for its executor`,
+        tags,
+      )
+    } else if (isJobExecutedSuccessfully) {
       this.networkMonitor.structuredLog(
         network,
         `Job with hash: ${jobHash} was executed successfully. Removing it from the list of jobs being processed.`,
@@ -565,7 +1365,7 @@ export default class Operator extends OperatorJobAwareCommand {
 
       // We can now delete the job hash from the list of jobs being processed
       if (jobHash && this.operatorJobs[jobHash]) {
-        delete this.operatorJobs[jobHash]
+        this.removeOperatorJob(jobHash, OperatorJobJournalEntryType.executed)
       }
     } else {
       this.networkMonitor.structuredLog(
@@ -573,7 +1373,9 @@ export default class Operator extends OperatorJobAwareCommand {
         `Job with hash: ${jobHash} failed to execute. Checking its status...`,
         tags,
       )
-      await this.checkJobStatus(jobHash, tags)
+      if (jobHash in this.operatorJobs) {
+        await this.checkJobStatus(jobHash, tags)
+      }
 
       this.networkMonitor.structuredLog(
         network,
@@ -584,6 +1386,17 @@ export default class Operator extends OperatorJobAwareCommand {
   }
 
   processOperatorJobs = async (network: string): Promise<void> => {
+    if (this.pausedNetworks.has(network) || network in this.balancePausedNetworks || this.networkMonitor.draining) {
+      return
+    }
+
+    // Standby replicas keep tracking jobs, so that they can execute them as soon as they take over
+    if (this.leaderElection !== undefined && !this.leaderElection.isLeader) {
+      return
+    }
+
+    this.requeueFailedOperatorJobs(network)
+    await this.recheckRestoredPendingTransactions(network)
     const jobCount = Object.keys(this.operatorJobs).length
 
     this.networkMonitor.structuredLog(network, `Starting processOperatorJobs`)
@@ -611,15 +1424,44 @@ export default class Operator extends OperatorJobAwareCommand {
 
       this.networkMonitor.structuredLog(network, `Updating job times`)
       this.updateJobTimes()
-      const jobs: OperatorJob[] = Object.values(this.operatorJobs).filter(job => job.network === network)
+      const jobsInFlight: Set<string> = this.jobsInFlight[network] ?? new Set()
+      // Jobs with an unconfirmed transaction from the last run wait until it resolves
+      const jobsWithPendingTransactions = new Set(
+        Object.values(this.networkMonitor.inFlightTransactions).map(transaction => transaction.jobHash),
+      )
+      const now = Date.now()
+      let jobs: OperatorJob[] = Object.values(this.operatorJobs).filter(
+        job =>
+          job.network === network &&
+          !jobsInFlight.has(job.hash) &&
+          !jobsWithPendingTransactions.has(job.hash) &&
+          !this.simulatedJobs[job.hash]?.settled &&
+          (job.deferredUntil ?? 0) <= now,
+      )
 
-      this.networkMonitor.structuredLog(network, `Sorting jobs by priority`)
-      const sortedJobs = this.sortJobsByPriority(jobs)
+      if (this.operatorMode === OperatorMode.manual && this.controlApiEnabled) {
+        const waitingJobs: number = jobs.filter(job => !this.approvedJobs.has(job.hash)).length
+        if (waitingJobs > 0) {
+          this.networkMonitor.structuredLog(network, `${waitingJobs} jobs are waiting for approval`)
+        }
 
-      this.networkMonitor.structuredLog(network, `Selecting job`)
-      selectedJob = this.selectJob(sortedJobs, gasPricing)
+        jobs = jobs.filter(job => this.approvedJobs.has(job.hash))
+      }
 
-      if (selectedJob) {
+      this.networkMonitor.structuredLog(network, `Sorting jobs by priority`)
+      const sortedJobs = this.jobSelectionStrategy.sortJobs(jobs)
+
+      this.networkMonitor.structuredLog(network, `Selecting job with ${this.jobSelectionStrategy.type} strategy`)
+      const selection: JobSelection = await this.jobSelectionStrategy.selectJob(network, sortedJobs, gasPricing)
+      this.logSkippedJobs(network, sortedJobs, selection, gasPricing)
+      selectedJob = selection.job
+
+      if (selectedJob && jobsInFlight.has(selectedJob.hash)) {
+        // Another worker picked the same job while this one was selecting
+        this.networkMonitor.structuredLog(network, `Job ${selectedJob.hash} is already in flight`)
+        selectedJob = null
+      } else if (selectedJob) {
+        jobsInFlight.add(selectedJob.hash)
         this.networkMonitor.structuredLog(network, `Selected job: ${selectedJob.hash}`)
         const tags = this.operatorJobs[selectedJob.hash]?.tags ?? [this.networkMonitor.randomTag()]
         this.networkMonitor.structuredLog(network, `Sending job ${selectedJob.hash} for execution`, tags)
@@ -636,12 +1478,9 @@ export default class Operator extends OperatorJobAwareCommand {
         error,
       )
 
-      // Add the failed job to failed jobs list
+      // Move the failed job from the original operatorJobs to the failed jobs list
       if (selectedJob && selectedJob.hash) {
-        this.failedOperatorJobs[selectedJob.hash] = this.operatorJobs[selectedJob.hash]
-
-        // Delete the job from the original operatorJobs
-        delete this.operatorJobs[selectedJob.hash]
+        this.failOperatorJob(selectedJob.hash, error)
 
         this.networkMonitor.structuredLogError(
           network,
@@ -651,42 +1490,35 @@ export default class Operator extends OperatorJobAwareCommand {
           error,
         )
       }
+    } finally {
+      if (selectedJob) {
+        this.jobsInFlight[network]?.delete(selectedJob.hash)
+      }
     }
   }
 
-  // This function sorts jobs based on target time and then by gas price.
-  sortJobsByPriority(jobs: OperatorJob[]): OperatorJob[] {
-    const now = Date.now()
-    const validJobs = jobs.filter(job => job.targetTime < now)
-    return validJobs.sort((a, b) => {
-      const timeDiff = a.targetTime - b.targetTime
-      if (timeDiff !== 0) return timeDiff
-      return BigNumber.from(b.gasPrice).sub(BigNumber.from(a.gasPrice)).toNumber()
-    })
-  }
-
-  // This function selects the best job based on the provided gas pricing.
-  selectJob(jobs: OperatorJob[], gasPricing: GasPricing): OperatorJob | null {
-    const compareGas: BigNumber = gasPricing.isEip1559 ? gasPricing.nextBlockFee! : gasPricing.gasPrice!
-
-    let totalGas: BigNumber = BigNumber.from(0)
-    for (const job of jobs) {
-      totalGas = totalGas.add(BigNumber.from(job.gasPrice))
-      if (BigNumber.from(job.gasPrice).gte(compareGas)) {
-        return job
-      }
+  logSkippedJobs(network: string, jobs: OperatorJob[], selection: JobSelection, gasPricing: GasPricing): void {
+    for (const skip of selection.skipped) {
+      const tags = this.operatorJobs[skip.jobHash]?.tags ?? []
+      this.networkMonitor.structuredLog(network, `Skipped job ${skip.jobHash}: ${JSON.stringify(skip)}`, tags)
     }
 
-    // Calculate average gas price.
-    const averageGasPrice: BigNumber = jobs.length > 0 ? totalGas.div(jobs.length) : BigNumber.from(0)
+    if (selection.job === null && jobs.length > 0) {
+      let totalGas: BigNumber = BigNumber.from(0)
+      for (const job of jobs) {
+        totalGas = totalGas.add(BigNumber.from(job.gasPrice))
+      }
 
-    this.networkMonitor.structuredLog(
-      undefined,
-      `None of the jobs in queue can be executed with the current gas pricing. ${
-        jobs.length
-      } jobs in queue. Gas price: ${compareGas.toString()}. Average gas provided: ${averageGasPrice.toString()}`,
-    )
-    return null
+      const averageGasPrice: BigNumber = totalGas.div(jobs.length)
+      this.networkMonitor.structuredLog(
+        network,
+        `None of the jobs in queue can be executed with the ${this.jobSelectionStrategy.type} job selection strategy. ${
+          jobs.length
+        } jobs in queue. Gas price: ${getMinimumGasPrice(
+          gasPricing,
+        ).toString()}. Average gas provided: ${averageGasPrice.toString()}`,
+      )
+    }
   }
 
   /**
@@ -695,6 +1527,7 @@ export default class Operator extends OperatorJobAwareCommand {
   async executeJob(jobHash: string, tags: (string | number)[]): Promise<boolean> {
     this.networkMonitor.structuredLog(undefined, `Starting execute job`, tags)
     let network: string | undefined
+    let jobLocked = false
 
     try {
       // Idempotency check
@@ -716,10 +1549,13 @@ export default class Operator extends OperatorJobAwareCommand {
 
       const job: OperatorJob = this.operatorJobs[jobHash]
       network = job.network
-      let operate = this.operatorMode === OperatorMode.auto
+      let operate = this.operatorMode === OperatorMode.auto || this.operatorMode === OperatorMode.simulate
 
       // Operator mode handling
-      if (this.operatorMode === OperatorMode.manual) {
+      if (this.operatorMode === OperatorMode.manual && this.controlApiEnabled) {
+        // Approvals are granted through the control API, each one allows a single execution attempt
+        operate = this.approvedJobs.delete(jobHash)
+      } else if (this.operatorMode === OperatorMode.manual) {
         const operatorPrompt: any = await inquirer.prompt([
           {
             name: 'shouldContinue',
@@ -736,6 +1572,49 @@ export default class Operator extends OperatorJobAwareCommand {
         return false
       }
 
+      if (this.leaderElection !== undefined) {
+        if (!(await this.leaderElection.lockJob(jobHash))) {
+          this.networkMonitor.structuredLog(network, 'Job is locked by another replica, it will not be executed', tags)
+          return false
+        }
+
+        jobLocked = true
+      }
+
+      // Pre-flight simulation, so that jobs that can not go through are not paid for
+      const simulation: JobSimulation = await this.simulateJob(job, tags)
+      if (this.operatorMode === OperatorMode.simulate) {
+        this.recordDecision(job, simulation)
+        if (
+          simulation.outcome === JobSimulationOutcome.executable ||
+          simulation.outcome === JobSimulationOutcome.willRevert
+        ) {
+          this.networkMonitor.structuredLog(network, `Simulate mode, the transaction is not sent`, tags)
+          return false
+        }
+      }
+
+      switch (simulation.outcome) {
+        case JobSimulationOutcome.alreadyFinished:
+          this.networkMonitor.structuredLog(network, `Job is already finished, removing it from the queue`, tags)
+          this.removeOperatorJob(jobHash, OperatorJobJournalEntryType.removed)
+          return true
+        case JobSimulationOutcome.notOurTurn:
+          job.deferredUntil = Date.now() + NOT_OUR_TURN_DEFERRAL
+          this.networkMonitor.structuredLog(
+            network,
+            `Job is not ours to execute yet, deferring it until ${new Date(job.deferredUntil).toISOString()}`,
+            tags,
+          )
+          return false
+        case JobSimulationOutcome.willRevert:
+          throw new JobSimulationRevertError(jobHash, simulation.reason!)
+      }
+
+      if (!(await this.ensureBalanceForJob(network, job, simulation.gasLimit!))) {
+        return false
+      }
+
       // Transaction handling
       this.networkMonitor.structuredLog(network, `About to execute the transaction`, tags)
       const receipt: TransactionReceipt | null = await this.networkMonitor.executeTransaction({
@@ -745,20 +1624,24 @@ export default class Operator extends OperatorJobAwareCommand {
         methodName: 'executeJob',
         args: [job.payload],
         gasPrice: BigNumber.from(job.gasPrice),
-        gasLimit: BigNumber.from(job.gasLimit).mul(BigNumber.from('2')),
+        gasLimit: simulation.gasLimit,
         canFail: true,
-        waitForReceipt: true,
         interval: 5000,
         attempts: 30,
+        jobHash,
       })
 
+      if (receipt && receipt.status === 0) {
+        throw new TransactionRevertedError(receipt.transactionHash)
+      }
+
       if (receipt && receipt.status === 1) {
         this.networkMonitor.structuredLog(
           network,
           `Execution succeeded. Removing job ${jobHash} from the operator jobs queue`,
           tags,
         )
-        delete this.operatorJobs[jobHash]
+        this.removeOperatorJob(jobHash, OperatorJobJournalEntryType.executed)
       }
 
       return receipt !== null
@@ -768,16 +1651,19 @@ export default class Operator extends OperatorJobAwareCommand {
       if (error instanceof IntrinsicGasTooLowError) {
         this.networkMonitor.structuredLogError(
           network,
-          `IntrinsicGasTooLowError occurred while executing job: ${jobHash}. The job's gas limit is to low to ever succeed. Removing job from queue.`,
+          `IntrinsicGasTooLowError occurred while executing job: ${jobHash}. The job's gas limit is to low to ever succeed.`,
           error.message,
         )
-        delete this.operatorJobs[jobHash]
       }
 
+      this.failOperatorJob(jobHash, error)
       return false
     } finally {
       this.networkMonitor.structuredLog(network, `Removing lock on job hash`, tags)
       this.isJobBeingExecuted[jobHash] = false
+      if (jobLocked) {
+        await this.leaderElection!.unlockJob(jobHash)
+      }
     }
   }
 }
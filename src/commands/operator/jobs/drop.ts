@@ -0,0 +1,46 @@
+import {Flags} from '@oclif/core'
+
+import {OperatorJobJournalCommand, OperatorJobStatus} from '../../../base-commands/operator-job-journal'
+import {OperatorJobJournalEntryType} from '../../../utils/operator-job-journal'
+import {controlApiClientFlag} from '../../../flags/control-api.flag'
+
+export default class OperatorJobsDrop extends OperatorJobJournalCommand {
+  static description =
+    'Drop a pending or failed job of the operator, through the control API of the running operator or in the job journal when no operator runs.'
+
+  static examples = ['$ <%= config.bin %> <%= command.id %> --hash="0x..."']
+
+  static flags = {
+    hash: Flags.string({
+      description: 'The hash of the job to drop',
+      required: true,
+    }),
+    ...controlApiClientFlag,
+  }
+
+  /**
+   * Command Entry Point
+   */
+  async run(): Promise<void> {
+    const {flags} = await this.parse(OperatorJobsDrop)
+    if (
+      flags.controlApiToken !== undefined &&
+      (await this.requestJobAction(flags.controlApiPort, flags.controlApiToken, flags.hash, 'drop'))
+    ) {
+      this.log(`Dropped job ${flags.hash} through the control API of the running operator`)
+      this.exit()
+    }
+
+    const state = await this.loadJobJournal()
+    this.ensureJobJournalIsNotOwned()
+
+    const found = this.findJob(state, flags.hash)
+    if (found === undefined || found.status === OperatorJobStatus.executed) {
+      this.error(`No pending or failed job found with hash ${flags.hash}`)
+    }
+
+    this.jobJournal.record(OperatorJobJournalEntryType.removed, flags.hash)
+    this.log(`Dropped ${found.status} job ${flags.hash} on ${found.job.network}`)
+    this.exit()
+  }
+}
@@ -0,0 +1,96 @@
+import YAML from 'yaml'
+
+import {CliUx, Flags} from '@oclif/core'
+
+import {OperatorJobJournalCommand, OperatorJobRow, OperatorJobStatus} from '../../../base-commands/operator-job-journal'
+
+/**
+ * OperatorJobs
+ * Description: Lists the jobs held by the operator, as recorded in its job journal.
+ */
+export default class OperatorJobs extends OperatorJobJournalCommand {
+  static description = 'List the pending, failed and executed jobs of the operator.'
+  static examples = [
+    '$ <%= config.bin %> <%= command.id %>',
+    '$ <%= config.bin %> <%= command.id %> --status failed --output json',
+    '$ <%= config.bin %> <%= command.id %> --networks ethereum polygon --output yaml',
+  ]
+
+  static flags = {
+    output: Flags.string({
+      description: 'Output format',
+      options: ['table', 'json', 'yaml'],
+      default: 'table',
+    }),
+    status: Flags.string({
+      description: 'Only list jobs with this status',
+      options: Object.values(OperatorJobStatus),
+    }),
+    networks: Flags.string({
+      description: 'Only list jobs on these networks',
+      multiple: true,
+    }),
+  }
+
+  /**
+   * Command Entry Point
+   */
+  async run(): Promise<void> {
+    const {flags} = await this.parse(OperatorJobs)
+    const state = await this.loadJobJournal()
+
+    const rows: OperatorJobRow[] = this.getJobRows(state).filter(
+      row =>
+        (flags.status === undefined || row.status === flags.status) &&
+        (flags.networks === undefined || flags.networks.includes(row.network)),
+    )
+
+    switch (flags.output) {
+      case 'json':
+        this.log(JSON.stringify(rows, null, 2))
+        break
+      case 'yaml': {
+        const yaml = new YAML.Document()
+        yaml.contents = rows as any
+        this.log(yaml.toString())
+        break
+      }
+
+      case 'table':
+      default:
+        this.printJobTable(rows)
+        break
+    }
+
+    this.exit()
+  }
+
+  printJobTable(rows: OperatorJobRow[]): void {
+    if (rows.length === 0) {
+      this.log('No jobs found')
+      return
+    }
+
+    CliUx.ux.table(
+      rows,
+      {
+        hash: {header: 'Job Hash'},
+        status: {header: 'Status'},
+        network: {header: 'Network'},
+        targetTime: {header: 'Target Time'},
+        gasLimit: {header: 'Gas Limit'},
+        gasPrice: {header: 'Gas Price'},
+        pod: {header: 'Pod'},
+        operator: {header: 'Operator'},
+        fallbackOperators: {header: 'Fallback Operators'},
+        attempts: {header: 'Attempts'},
+        nextAttemptTime: {header: 'Next Attempt'},
+        lastFailure: {header: 'Last Failure'},
+      },
+      {
+        printLine: this.log.bind(this),
+        'no-truncate': true,
+      },
+    )
+  }
+}
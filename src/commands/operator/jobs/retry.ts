@@ -0,0 +1,48 @@
+import {Flags} from '@oclif/core'
+
+import {OperatorJobJournalCommand, OperatorJobStatus} from '../../../base-commands/operator-job-journal'
+import {OperatorJob} from '../../../utils/operator-job'
+import {OperatorJobJournalEntryType} from '../../../utils/operator-job-journal'
+import {controlApiClientFlag} from '../../../flags/control-api.flag'
+
+export default class OperatorJobsRetry extends OperatorJobJournalCommand {
+  static description =
+    'Move a failed job back to the pending jobs of the operator, resetting its retry attempts. Goes through the control API of the running operator, or the job journal when no operator runs.'
+
+  static examples = ['$ <%= config.bin %> <%= command.id %> --hash="0x..."']
+
+  static flags = {
+    hash: Flags.string({
+      description: 'The hash of the job to retry',
+      required: true,
+    }),
+    ...controlApiClientFlag,
+  }
+
+  /**
+   * Command Entry Point
+   */
+  async run(): Promise<void> {
+    const {flags} = await this.parse(OperatorJobsRetry)
+    if (
+      flags.controlApiToken !== undefined &&
+      (await this.requestJobAction(flags.controlApiPort, flags.controlApiToken, flags.hash, 'retry'))
+    ) {
+      this.log(`Job ${flags.hash} will be retried by the running operator`)
+      this.exit()
+    }
+
+    const state = await this.loadJobJournal()
+    this.ensureJobJournalIsNotOwned()
+
+    const found = this.findJob(state, flags.hash)
+    if (found === undefined || found.status !== OperatorJobStatus.failed) {
+      this.error(`No failed job found with hash ${flags.hash}`)
+    }
+
+    const job: OperatorJob = {...found.job, attempts: undefined, nextAttemptTime: undefined}
+    this.jobJournal.record(OperatorJobJournalEntryType.added, flags.hash, job)
+    this.log(`Job ${flags.hash} on ${job.network} will be retried`)
+    this.exit()
+  }
+}
@@ -52,7 +52,7 @@ export default class Recover extends OperatorJobAwareCommand {
     file: Flags.string({
       char: 'f',
       description:
-        'JSON file path of incomplete jobs (ie "./incompleteJobs.json") in format [{ source_tx, source_chain_id}]',
+        'JSON file path of incomplete jobs (ie "./incompleteJobs.json") in format [{ source_tx, source_chain_id}], the operator dead-letter file can be used as is',
       exclusive: ['tx'],
     }),
     mode: Flags.string({
@@ -187,12 +187,20 @@ export default class Recover extends OperatorJobAwareCommand {
         this.error(`One or more lines are an invalid Incomplete jobs JSON object`)
       }
 
-      txArray = incompleteJobs.map(item => {
-        return {
-          sourceChainId: item.source_chain_id,
-          sourceTx: item.source_tx,
-        }
-      })
+      // Dead-letter entries of jobs that were restored from an older job file do not know their source transaction
+      const unrecoverableJobs = incompleteJobs.filter(item => item.source_tx === undefined)
+      if (unrecoverableJobs.length > 0) {
+        this.warn(`Skipping ${unrecoverableJobs.length} jobs without a source transaction`)
+      }
+
+      txArray = incompleteJobs
+        .filter(item => item.source_tx !== undefined)
+        .map(item => {
+          return {
+            sourceChainId: item.source_chain_id,
+            sourceTx: item.source_tx,
+          }
+        })
     }
 
     this.log(`Number of jobs to resolve: ${txArray.length}`)
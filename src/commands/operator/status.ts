@@ -0,0 +1,192 @@
+import {CliUx, Command, Flags} from '@oclif/core'
+import {BigNumber} from '@ethersproject/bignumber'
+import {Contract} from '@ethersproject/contracts'
+import {formatUnits} from '@ethersproject/units'
+import {getEnvironment} from '@holographxyz/environment'
+
+import {ensureConfigFileIsValid} from '../../utils/config'
+import {getABIs} from '../../utils/contracts'
+import {NetworkMonitor, networksFlag} from '../../utils/network-monitor'
+
+export type OperatorNetworkStatus = {
+  network: string
+  bonded: boolean
+  bondedAmount: string
+  pod: number
+  podIndex: number
+  podSize: number
+  minimumBond: string
+  // HLG bonded above the base bond of the pod, the operator contract has no getter for the rewards themselves
+  estimatedRewards: string
+  nativeBalance: string
+  hlgBalance: string
+  error?: string
+}
+
+/**
+ * OperatorStatus
+ * Description: Shows the bond, pod position and balances of the operator wallet on every configured network.
+ */
+export default class OperatorStatus extends Command {
+  static description =
+    'Show the bond, pod position and balances of the operator on every network. Rewards are estimated as the HLG bonded above the base bond of the pod, where job fees are credited. The operator contract does not report them, so an operator that bonded more than the base bond sees that surplus counted too.'
+
+  static examples = [
+    '$ <%= config.bin %> <%= command.id %>',
+    '$ <%= config.bin %> <%= command.id %> --networks ethereum polygon --output json',
+  ]
+
+  static flags = {
+    output: Flags.string({
+      description: 'Output format',
+      options: ['table', 'json'],
+      default: 'table',
+    }),
+    ...networksFlag,
+  }
+
+  networkMonitor!: NetworkMonitor
+
+  /**
+   * Command Entry Point
+   */
+  async run(): Promise<void> {
+    const {flags} = await this.parse(OperatorStatus)
+    const jsonOutput = flags.output === 'json'
+
+    // Only the address is needed, so the private key is not decrypted
+    const {configFile} = await ensureConfigFileIsValid(this.config.configDir, undefined, false)
+    const address: string = configFile.user.credentials.address.toLowerCase()
+
+    this.networkMonitor = new NetworkMonitor({
+      parent: this,
+      configFile,
+      networks: flags.networks,
+      debug: this.debug,
+      userWallet: undefined,
+      verbose: false,
+    })
+
+    if (!jsonOutput) {
+      CliUx.ux.action.start('Loading network RPC providers')
+    }
+
+    await this.networkMonitor.run(true)
+    if (!jsonOutput) {
+      CliUx.ux.action.stop()
+    }
+
+    const abis = await getABIs(getEnvironment())
+    const statuses: OperatorNetworkStatus[] = []
+    for (const network of this.networkMonitor.networks) {
+      statuses.push(await this.getNetworkStatus(network, address, abis.HolographERC20ABI))
+    }
+
+    if (jsonOutput) {
+      this.log(JSON.stringify({address, networks: statuses}, undefined, 2))
+    } else {
+      this.log(`Operator address: ${address}`)
+      this.printStatusTable(statuses)
+    }
+
+    this.exit()
+  }
+
+  async getNetworkStatus(
+    network: string,
+    address: string,
+    tokenAbi: Array<Record<string, any>>,
+  ): Promise<OperatorNetworkStatus> {
+    const provider = this.networkMonitor.providers[network]
+    const operator: Contract = this.networkMonitor.operatorContract.connect(provider)
+    const token: Contract = new Contract(this.networkMonitor.tokenAddress, tokenAbi, provider)
+    const status: OperatorNetworkStatus = {
+      network,
+      bonded: false,
+      bondedAmount: '0.0',
+      pod: 0,
+      podIndex: 0,
+      podSize: 0,
+      minimumBond: '',
+      estimatedRewards: '0.0',
+      nativeBalance: '',
+      hlgBalance: '',
+    }
+
+    try {
+      const bondedAmount: BigNumber = BigNumber.from(await operator.getBondedAmount(address))
+      status.bonded = !bondedAmount.isZero()
+      status.bondedAmount = formatUnits(bondedAmount, 'ether')
+      status.pod = BigNumber.from(await operator.getBondedPod(address)).toNumber()
+
+      if (status.pod > 0) {
+        status.podIndex = BigNumber.from(await operator.getBondedPodIndex(address)).toNumber()
+        status.podSize = BigNumber.from(await operator.getPodOperatorsLength(status.pod)).toNumber()
+
+        const podBondAmounts: {base: BigNumber; current: BigNumber} = await operator.getPodBondAmounts(status.pod)
+        status.minimumBond = formatUnits(podBondAmounts.current, 'ether')
+        const estimatedRewards: BigNumber = bondedAmount.sub(podBondAmounts.base)
+        status.estimatedRewards = formatUnits(
+          estimatedRewards.isNegative() ? BigNumber.from(0) : estimatedRewards,
+          'ether',
+        )
+      }
+
+      status.nativeBalance = formatUnits(await provider.getBalance(address), 'ether')
+      status.hlgBalance = formatUnits(await token.balanceOf(address), 'ether')
+    } catch (error: any) {
+      status.error = error.reason ?? error.message
+    }
+
+    return status
+  }
+
+  printStatusTable(statuses: OperatorNetworkStatus[]): void {
+    CliUx.ux.table(
+      statuses,
+      {
+        network: {
+          header: 'Network',
+        },
+        bonded: {
+          header: 'Bonded',
+        },
+        bondedAmount: {
+          header: 'Bonded HLG',
+        },
+        pod: {
+          header: 'Pod',
+          get: row => (row.pod > 0 ? row.pod : ''),
+        },
+        podIndex: {
+          header: 'Pod Index',
+          get: row => (row.pod > 0 ? row.podIndex : ''),
+        },
+        podSize: {
+          header: 'Pod Size',
+          get: row => (row.pod > 0 ? row.podSize : ''),
+        },
+        minimumBond: {
+          header: 'Minimum Bond',
+        },
+        estimatedRewards: {
+          header: 'Est. Rewards HLG',
+        },
+        nativeBalance: {
+          header: 'Native Balance',
+        },
+        hlgBalance: {
+          header: 'HLG Balance',
+        },
+        error: {
+          header: 'Error',
+          get: row => row.error ?? '',
+        },
+      },
+      {
+        printLine: this.log.bind(this),
+        'no-truncate': true,
+      },
+    )
+  }
+}
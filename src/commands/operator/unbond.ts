@@ -1,6 +1,9 @@
 import * as inquirer from 'inquirer'
 
-import {CliUx, Command} from '@oclif/core'
+import * as path from 'node:path'
+import * as fs from 'fs-extra'
+
+import {CliUx, Command, Flags} from '@oclif/core'
 import color from '@oclif/color'
 import {BigNumber} from '@ethersproject/bignumber'
 import {TransactionReceipt} from '@ethersproject/providers'
@@ -10,8 +13,8 @@ const Table = require('cli-table3')
 import CoreChainService from '../../services/core-chain-service'
 import OperatorChainService from '../../services/operator-chain-service'
 import {ensureConfigFileIsValid} from '../../utils/config'
-import {NetworkMonitor} from '../../utils/network-monitor'
-import {SelectOption} from '../../utils/validation'
+import {NetworkMonitor, networksFlag} from '../../utils/network-monitor'
+import {addressValidator, SelectOption} from '../../utils/validation'
 
 interface NetworkBondInfo {
   networkOption: SelectOption
@@ -19,6 +22,22 @@ interface NetworkBondInfo {
   operatorChainService: OperatorChainService
 }
 
+export type UnbondReportEntry = {
+  network: string
+  bondedAmount: string
+  expectedReturn: string
+  transactionHash?: string
+  status: 'unbonded' | 'notBonded' | 'failed'
+  error?: string
+}
+
+export type UnbondReport = {
+  operator: string
+  recipient: string
+  timestamp: string
+  results: UnbondReportEntry[]
+}
+
 /**
  * Unbond
  * Description: Unbond an operator from pod.
@@ -26,7 +45,37 @@ interface NetworkBondInfo {
 export default class Unbond extends Command {
   static description = 'Un-bond an operator from a pod'
 
-  static examples = ['$ <%= config.bin %> <%= command.id %>']
+  static examples = [
+    '$ <%= config.bin %> <%= command.id %>',
+    '$ <%= config.bin %> <%= command.id %> --networks ethereum polygon --recipient 0x... --dry-run',
+    '$ <%= config.bin %> <%= command.id %> --all --yes --report ./unbond-report.json',
+  ]
+
+  static flags = {
+    ...networksFlag,
+    all: Flags.boolean({
+      description: 'Unbond from every configured network the operator is bonded on',
+      default: false,
+      exclusive: ['networks'],
+    }),
+    recipient: Flags.string({
+      description: 'The address that receives the unbonded HLG, defaults to the operator wallet',
+    }),
+    'dry-run': Flags.boolean({
+      description: 'Only preview the HLG that would be returned on each network, without sending transactions',
+      default: false,
+    }),
+    yes: Flags.boolean({
+      description: 'Skip the confirmation prompt before unbonding',
+      default: false,
+    }),
+    report: Flags.string({
+      description: 'Path of the JSON report with the unbonding transaction of every network',
+    }),
+    unsafePassword: Flags.string({
+      description: 'Enter the plain text password for the wallet in the holograph cli config',
+    }),
+  }
 
   networkMonitor!: NetworkMonitor
 
@@ -54,13 +103,48 @@ export default class Unbond extends Command {
   }
 
   async run(): Promise<void> {
+    const {flags} = await this.parse(Unbond)
+
+    if (flags.recipient !== undefined && !addressValidator.test(flags.recipient)) {
+      this.error(`Invalid recipient address: ${flags.recipient}`)
+    }
+
     this.log('Loading user configurations...')
     const {userWallet, configFile, supportedNetworksOptions} = await ensureConfigFileIsValid(
       this.config.configDir,
-      undefined,
+      flags.unsafePassword,
       true,
     )
 
+    if (flags.all || flags.networks !== undefined) {
+      const unknownNetworks: string[] = (flags.networks ?? []).filter(
+        network => !supportedNetworksOptions.some(networkOption => networkOption.value === network),
+      )
+      if (unknownNetworks.length > 0) {
+        this.error(`Networks not configured: ${unknownNetworks.join(', ')}`)
+      }
+
+      const selectedNetworksOptions = flags.all
+        ? supportedNetworksOptions
+        : supportedNetworksOptions.filter(networkOption => flags.networks!.includes(networkOption.value))
+      this.networkMonitor = new NetworkMonitor({
+        parent: this,
+        configFile: configFile,
+        networks: selectedNetworksOptions.map(networkOption => networkOption.value),
+        debug: this.debug,
+        userWallet: userWallet,
+        verbose: false,
+      })
+      await this.unbondBatch(selectedNetworksOptions, {
+        operator: userWallet.address,
+        recipient: flags.recipient ?? userWallet.address,
+        dryRun: flags['dry-run'],
+        yes: flags.yes,
+        reportPath: flags.report,
+      })
+      this.exit()
+    }
+
     this.networkMonitor = new NetworkMonitor({
       parent: this,
       configFile: configFile,
@@ -132,4 +216,141 @@ export default class Unbond extends Command {
       this.exit()
     }
   }
+
+  /**
+   * Unbonds from every selected network the operator is bonded on, sending the HLG to the recipient
+   * Every selected network is in the report, including the ones not bonded and the ones whose bond could not be read
+   */
+  async unbondBatch(
+    networksOptions: SelectOption[],
+    {
+      operator,
+      recipient,
+      dryRun,
+      yes,
+      reportPath,
+    }: {operator: string; recipient: string; dryRun: boolean; yes: boolean; reportPath?: string},
+  ): Promise<void> {
+    const table = new Table({
+      head: ['Network', 'Bonded Amount', 'Expected HLG Returned', 'Recipient'],
+    })
+    const report: UnbondReport = {
+      operator,
+      recipient,
+      timestamp: new Date().toISOString(),
+      results: [],
+    }
+    const networksToUnbond: NetworkBondInfo[] = []
+    for (const networkOption of networksOptions) {
+      let info: NetworkBondInfo
+      try {
+        info = await this.getBondInfoFromNetwork(networkOption)
+      } catch (error: any) {
+        CliUx.ux.action.stop('failed')
+        const message: string = error.reason ?? error.message
+        report.results.push({
+          network: networkOption.value,
+          bondedAmount: '-',
+          expectedReturn: '-',
+          status: 'failed',
+          error: message,
+        })
+        table.push([networkOption.name, '-', '-', `could not read the bond: ${message}`])
+        continue
+      }
+
+      if (info.bondedAmount.gt(BigNumber.from('0'))) {
+        networksToUnbond.push(info)
+        // The whole bond is returned on unbonding
+        table.push([
+          networkOption.name,
+          formatUnits(info.bondedAmount, 'ether'),
+          formatUnits(info.bondedAmount, 'ether'),
+          recipient,
+        ])
+      } else {
+        report.results.push({
+          network: networkOption.value,
+          bondedAmount: formatUnits(info.bondedAmount, 'ether'),
+          expectedReturn: '0.0',
+          status: 'notBonded',
+        })
+        table.push([networkOption.name, formatUnits(info.bondedAmount, 'ether'), '-', 'not bonded'])
+      }
+    }
+
+    this.log(table.toString())
+
+    if (networksToUnbond.length === 0) {
+      if (report.results.every(entry => entry.status === 'notBonded')) {
+        this.log('The operator is not bonded on any of the selected networks.')
+        return
+      }
+
+      await this.writeReport(report, reportPath)
+      this.error('The bond could not be read on one or more networks, see the report for details')
+    }
+
+    if (dryRun) {
+      this.log('Dry run, no blockchain transactions executed')
+      return
+    }
+
+    if (!yes) {
+      const prompt: any = await inquirer.prompt([
+        {
+          name: 'continue',
+          message: `Unbond from ${networksToUnbond.length} networks and send the HLG to ${recipient}?`,
+          type: 'confirm',
+          default: false,
+        },
+      ])
+      if (!prompt.continue) {
+        this.log('Dropping command, no blockchain transactions executed')
+        return
+      }
+    }
+
+    for (const networkToUnbond of networksToUnbond) {
+      this.log(`Unbonding from network: ${networkToUnbond.networkOption.name}`)
+      const entry: UnbondReportEntry = {
+        network: networkToUnbond.networkOption.value,
+        bondedAmount: formatUnits(networkToUnbond.bondedAmount, 'ether'),
+        expectedReturn: formatUnits(networkToUnbond.bondedAmount, 'ether'),
+        status: 'failed',
+      }
+
+      try {
+        const unbondReceipt: TransactionReceipt | null = await networkToUnbond.operatorChainService.unbondUtilityToken(
+          recipient,
+        )
+        if (unbondReceipt === null) {
+          entry.error = 'Could not confirm the success of unbonding transaction.'
+        } else {
+          entry.transactionHash = unbondReceipt.transactionHash
+          entry.status = 'unbonded'
+        }
+      } catch (error: any) {
+        entry.error = error.reason ?? error.message
+      }
+
+      this.log(
+        entry.status === 'unbonded'
+          ? color.green(`Unbonded from ${networkToUnbond.networkOption.name} in ${entry.transactionHash}`)
+          : color.red(`Could not unbond from ${networkToUnbond.networkOption.name}: ${entry.error}`),
+      )
+      report.results.push(entry)
+    }
+
+    await this.writeReport(report, reportPath)
+    if (report.results.some(entry => entry.status === 'failed')) {
+      this.error('Unbonding failed on one or more networks, see the report for details')
+    }
+  }
+
+  async writeReport(report: UnbondReport, reportPath?: string): Promise<void> {
+    const reportFile: string = reportPath ?? path.join(this.config.configDir, `unbond-report-${Date.now()}.json`)
+    await fs.outputJson(reportFile, report, {spaces: 2})
+    this.log(`Unbonding report written to ${reportFile}`)
+  }
 }
@@ -0,0 +1,29 @@
+import {Flags} from '@oclif/core'
+
+export const controlApiFlag = {
+  controlApi: Flags.boolean({
+    description: 'Launch an authenticated control API on http://127.0.0.1:6001 to manage the running operator',
+    default: false,
+  }),
+  controlApiPort: Flags.integer({
+    description: 'This flag allows you to choose what port the control API is running on.',
+    dependsOn: ['controlApi'],
+  }),
+  controlApiToken: Flags.string({
+    description: 'The bearer token that requests to the control API must present',
+    env: 'HOLOGRAPH_CONTROL_API_TOKEN',
+  }),
+}
+
+// Flags of the commands that send requests to the control API of a running operator
+export const controlApiClientFlag = {
+  controlApiPort: Flags.integer({
+    description: 'The port the control API of the running operator listens on',
+    default: 6001,
+  }),
+  controlApiToken: Flags.string({
+    description:
+      'The bearer token of the control API of the running operator. Without it, the job journal is changed directly',
+    env: 'HOLOGRAPH_CONTROL_API_TOKEN',
+  }),
+}
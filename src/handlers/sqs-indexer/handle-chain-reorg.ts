@@ -0,0 +1,37 @@
+import {ChainReorg} from '../../types/network-monitor'
+import {NetworkMonitor} from '../../utils/network-monitor'
+import {SqsEventName, PayloadType, SqsMessageBody} from '../../types/sqs'
+import {networkToChainId} from '../../utils/web3'
+import SqsService from '../../services/sqs-service'
+
+async function handleChainReorg(networkMonitor: NetworkMonitor, reorg: ChainReorg): Promise<void> {
+  const tags: (string | number)[] = [reorg.fromBlock, reorg.toBlock]
+  networkMonitor.structuredLog(reorg.network, `handleChainReorg`, tags)
+
+  const messageBody: SqsMessageBody = {
+    type: PayloadType.HolographProtocol,
+    eventName: SqsEventName.ChainReorg,
+    tagId: tags,
+    chainId: networkToChainId[reorg.network],
+    holographAddress: networkMonitor.HOLOGRAPH_ADDRESSES[networkMonitor.environment],
+    environment: networkMonitor.environment,
+    payload: {
+      commonAncestor: reorg.commonAncestor,
+      fromBlock: reorg.fromBlock,
+      toBlock: reorg.toBlock,
+      orphanedBlocks: reorg.orphanedBlocks.map(block => ({blockNum: block.number, blockHash: block.hash})),
+    },
+  }
+
+  networkMonitor.structuredLog(
+    reorg.network,
+    `Sending message with MessageBody: ${JSON.stringify(messageBody)} to queue...`,
+    tags,
+  )
+
+  const response = await SqsService.Instance.sendMessage(messageBody)
+
+  networkMonitor.structuredLog(reorg.network, `Response: ${JSON.stringify(response)}`, tags)
+}
+
+export default handleChainReorg
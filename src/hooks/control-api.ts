@@ -0,0 +1,170 @@
+import {IncomingMessage, ServerResponse} from 'node:http'
+import http from 'node:http'
+import {timingSafeEqual} from 'node:crypto'
+
+import {OperatorController} from '../types/control-api'
+import {ControlApiRequestError} from '../utils/errors'
+import {OperatorMode} from '../utils/network-monitor'
+
+type startControlApiServerProps = {
+  controller: OperatorController
+  controlApiPort?: number
+  controlApiToken: string
+}
+
+const MAX_BODY_SIZE = 64 * 1024
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header: string = req.headers.authorization ?? ''
+  const expected = Buffer.from(`Bearer ${token}`)
+  const received = Buffer.from(header)
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<{[key: string]: any}> {
+  let body = ''
+  for await (const chunk of req) {
+    body += chunk
+    if (body.length > MAX_BODY_SIZE) {
+      throw new ControlApiRequestError(413, 'Request body is too large')
+    }
+  }
+
+  if (body.trim() === '') {
+    return {}
+  }
+
+  try {
+    return JSON.parse(body)
+  } catch {
+    throw new ControlApiRequestError(400, 'Request body is not valid JSON')
+  }
+}
+
+function requireString(body: {[key: string]: any}, field: string): string {
+  if (typeof body[field] !== 'string' || body[field] === '') {
+    throw new ControlApiRequestError(400, `Missing ${field} in request body`)
+  }
+
+  return body[field]
+}
+
+/**
+ * Routes a request to the operator controller
+ *
+ * GET  /status                         mode, paused networks and job counts
+ * POST /mode                           {"mode": "listen" | "manual" | "auto" | "simulate"}
+ * POST /networks/:network/pause        stop executing jobs on the network
+ * POST /networks/:network/resume       resume executing jobs on the network
+ * POST /networks/:network/status       refresh the operator status (pod, bond) on the network
+ * POST /jobs                           {"network", "tx"} enqueue the job emitted by a transaction
+ * POST /jobs/:hash/approve             approve the execution of a job in manual mode
+ * POST /jobs/:hash/drop                drop a pending or failed job
+ * POST /jobs/:hash/retry               move a failed job back to the pending jobs, resetting its retry attempts
+ */
+async function handleRequest(controller: OperatorController, req: IncomingMessage): Promise<any> {
+  const url = new URL(req.url ?? '/', 'http://localhost')
+  const [resource, id, action] = url.pathname.split('/').filter(part => part !== '')
+
+  if (req.method === 'GET' && resource === 'status' && id === undefined) {
+    return controller.getControlStatus()
+  }
+
+  if (req.method !== 'POST') {
+    throw new ControlApiRequestError(404, `Unknown route ${req.method} ${url.pathname}`)
+  }
+
+  const body = await readJsonBody(req)
+
+  if (resource === 'mode' && id === undefined) {
+    const mode = requireString(body, 'mode')
+    if (!Object.values(OperatorMode).includes(mode as OperatorMode)) {
+      throw new ControlApiRequestError(400, `Unknown mode ${mode}, expected one of ${Object.values(OperatorMode)}`)
+    }
+
+    controller.switchOperatorMode(mode as OperatorMode)
+    return controller.getControlStatus()
+  }
+
+  if (resource === 'networks' && id !== undefined) {
+    switch (action) {
+      case 'pause':
+        controller.pauseNetwork(id)
+        return controller.getControlStatus()
+      case 'resume':
+        controller.resumeNetwork(id)
+        return controller.getControlStatus()
+      case 'status':
+        return {network: id, updated: await controller.refreshOperatorStatus(id)}
+    }
+  }
+
+  if (resource === 'jobs' && id === undefined) {
+    const jobHash = await controller.enqueueJob(requireString(body, 'network'), requireString(body, 'tx'))
+    return {jobHash}
+  }
+
+  if (resource === 'jobs' && id !== undefined && action === 'approve') {
+    controller.approveJob(id.toLowerCase())
+    return {jobHash: id.toLowerCase(), approved: true}
+  }
+
+  if (resource === 'jobs' && id !== undefined && action === 'drop') {
+    controller.dropJob(id.toLowerCase())
+    return {jobHash: id.toLowerCase(), dropped: true}
+  }
+
+  if (resource === 'jobs' && id !== undefined && action === 'retry') {
+    controller.retryJob(id.toLowerCase())
+    return {jobHash: id.toLowerCase(), retried: true}
+  }
+
+  throw new ControlApiRequestError(404, `Unknown route ${req.method} ${url.pathname}`)
+}
+
+class ControlApiServer {
+  private static _instance?: ControlApiServer
+  private readonly server: http.Server
+
+  private constructor(options: startControlApiServerProps) {
+    const {controller, controlApiPort, controlApiToken} = options
+
+    // Only reachable from the host (or the container) the operator runs on
+    const host = '127.0.0.1'
+    const port = controlApiPort ? controlApiPort : 6001
+
+    this.server = http.createServer(async (req: IncomingMessage, res: ServerResponse) => {
+      res.setHeader('Content-Type', 'application/json')
+      if (!isAuthorized(req, controlApiToken)) {
+        res.writeHead(401)
+        res.end(JSON.stringify({error: 'Unauthorized'}))
+        return
+      }
+
+      try {
+        const result = await handleRequest(controller, req)
+        res.writeHead(200)
+        res.end(JSON.stringify(result))
+      } catch (error: any) {
+        res.writeHead(error instanceof ControlApiRequestError ? error.statusCode : 500)
+        res.end(JSON.stringify({error: error.message}))
+      }
+    })
+
+    this.server.listen(port, host, () => {
+      console.log(`Control API is running on http://${host}:${port}`)
+    })
+  }
+
+  static getInstance(options: startControlApiServerProps): ControlApiServer {
+    if (!ControlApiServer._instance) ControlApiServer._instance = new ControlApiServer(options)
+
+    return ControlApiServer._instance
+  }
+}
+
+const controlApiHook = async function (options: startControlApiServerProps): Promise<void> {
+  ControlApiServer.getInstance(options)
+}
+
+export default controlApiHook
@@ -1,7 +1,10 @@
 import {IncomingMessage, ServerResponse} from 'node:http'
 import http from 'node:http'
 
+import {BigNumber} from '@ethersproject/bignumber'
 import {NetworkMonitor} from '../utils/network-monitor'
+import {GasPricing} from '../utils/gas'
+import {MetricsRegistry} from '../utils/metrics'
 import {Config} from '@oclif/core'
 
 type startHealthCheckServerProps = {
@@ -10,6 +13,36 @@ type startHealthCheckServerProps = {
   config: Config
 }
 
+/**
+ * Publishes the block heights, block job queues and gas prices tracked by the network monitor
+ */
+function collectNetworkMonitorMetrics(networkMonitor: NetworkMonitor): void {
+  const registry = MetricsRegistry.Instance
+  const latestBlockHeight = registry.gauge('holograph_latest_block_height', 'Latest block height seen on the network')
+  const processedBlockHeight = registry.gauge('holograph_processed_block_height', 'Last block height processed')
+  const blockLag = registry.gauge('holograph_block_lag', 'Number of blocks between the latest and processed block')
+  const blockJobs = registry.gauge('holograph_block_jobs', 'Blocks waiting to be processed')
+  const gasPrice = registry.gauge('holograph_gas_price', 'Current gas pricing values of the network, in wei')
+
+  for (const network of networkMonitor.networks) {
+    const latest = networkMonitor.currentBlockHeight[network] ?? 0
+    const processed = networkMonitor.latestBlockHeight[network] ?? 0
+    latestBlockHeight.set({network}, latest)
+    processedBlockHeight.set({network}, processed)
+    blockLag.set({network}, Math.max(latest - processed, 0))
+    blockJobs.set({network}, networkMonitor.blockJobs[network]?.length ?? 0)
+
+    const gasPricing: GasPricing | undefined = networkMonitor.gasPrices[network]
+    if (gasPricing !== undefined) {
+      for (const [field, value] of Object.entries(gasPricing)) {
+        if (BigNumber.isBigNumber(value)) {
+          gasPrice.set({network, field}, Number(value.toString()))
+        }
+      }
+    }
+  }
+}
+
 class HealthCheckServer {
   private static _instance?: HealthCheckServer
   private readonly server: http.Server
@@ -20,12 +53,29 @@ class HealthCheckServer {
     const host = '0.0.0.0'
     const port = healthCheckPort ? healthCheckPort : 6000
 
-    this.server = http.createServer((req: IncomingMessage, res: ServerResponse) => {
+    MetricsRegistry.Instance.registerCollector(() => collectNetworkMonitorMetrics(networkMonitor))
+
+    this.server = http.createServer(async (req: IncomingMessage, res: ServerResponse) => {
+      if (req.url === '/metrics') {
+        res.setHeader('Content-Type', 'text/plain; version=0.0.4')
+        try {
+          const body = await MetricsRegistry.Instance.render()
+          res.writeHead(200)
+          res.end(body)
+        } catch (error: any) {
+          res.writeHead(500)
+          res.end(error.message)
+        }
+
+        return
+      }
+
       res.setHeader('Content-Type', 'application/json')
       if (req.url === '/healthcheck') {
         const providerStatus = networkMonitor.getProviderStatus()
+        const providerEndpoints = networkMonitor.getProviderEndpointHealth()
         res.writeHead(200)
-        res.end(JSON.stringify({status: 'alive', providerStatus}))
+        res.end(JSON.stringify({status: 'alive', providerStatus, providerEndpoints}))
       } else {
         res.writeHead(200)
         res.end(JSON.stringify({hello: 'evil person'}))
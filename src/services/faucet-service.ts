@@ -69,7 +69,6 @@ class FaucetService extends CoreChainService {
       contract: this.faucet,
       methodName: 'requestTokens',
       args: [],
-      waitForReceipt: true,
     })
   }
 }
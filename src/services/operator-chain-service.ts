@@ -4,6 +4,10 @@ import {BigNumber, BigNumberish} from '@ethersproject/bignumber'
 
 import CoreChainService from './core-chain-service'
 import {NetworkMonitor} from '../utils/network-monitor'
+import {PodInfo} from '../types/holograph-operator'
+
+// Pods store their operators in a uint16 indexed array
+export const MAX_POD_OPERATORS = 65_535
 
 class OperatorChainService extends CoreChainService {
   operator: Contract
@@ -20,6 +24,40 @@ class OperatorChainService extends CoreChainService {
     return this.operator.getPodBondAmounts(pod)
   }
 
+  getPodOperatorsLength = async (pod: number): Promise<BigNumberish> => {
+    return this.operator.getPodOperatorsLength(pod)
+  }
+
+  getPods = async (): Promise<PodInfo[]> => {
+    const totalPods: number = BigNumber.from(await this.getTotalPods()).toNumber()
+    const pods: PodInfo[] = []
+    for (let pod = 1; pod <= totalPods; pod++) {
+      const {base, current} = await this.getPodBondAmounts(pod)
+      pods.push({
+        pod,
+        base: BigNumber.from(base),
+        current: BigNumber.from(current),
+        operators: BigNumber.from(await this.getPodOperatorsLength(pod)).toNumber(),
+      })
+    }
+
+    return pods
+  }
+
+  /**
+   * The pod that currently costs the least to bond into and still has room for another operator
+   */
+  recommendPod = (pods: PodInfo[]): PodInfo | undefined => {
+    let recommended: PodInfo | undefined
+    for (const pod of pods) {
+      if (pod.operators < MAX_POD_OPERATORS && (recommended === undefined || pod.current.lt(recommended.current))) {
+        recommended = pod
+      }
+    }
+
+    return recommended
+  }
+
   getBondedPod = async (operator: string): Promise<BigNumberish> => {
     return this.operator.getBondedPod(operator)
   }
@@ -42,7 +80,6 @@ class OperatorChainService extends CoreChainService {
       contract: this.operator,
       methodName: 'unbondUtilityToken',
       args: [this.wallet.address, receiver],
-      waitForReceipt: true,
     })
   }
 
@@ -56,7 +93,6 @@ class OperatorChainService extends CoreChainService {
       contract: this.operator,
       methodName: 'bondUtilityToken',
       args: [operator, amount, pod],
-      waitForReceipt: true,
     })
   }
 
@@ -1,6 +1,7 @@
 import {SQSClient, SendMessageCommand, SendMessageCommandOutput} from '@aws-sdk/client-sqs'
 import {SqsMessageBody} from '../types/sqs'
 import {retry} from '../utils/utils'
+import {AlertEventType, AlertSeverity, Alerting} from '../utils/alerting'
 
 class SqsService {
   private static _instance?: SqsService
@@ -53,7 +54,17 @@ class SqsService {
         }),
       )
 
-    return retry(sendMessage, this.maxRetries)
+    try {
+      return await retry(sendMessage, this.maxRetries)
+    } catch (error: any) {
+      Alerting.Instance.emit({
+        type: AlertEventType.sqsSendFailed,
+        severity: AlertSeverity.critical,
+        message: `Failed to send ${sqsMessage.type} message to SQS: ${error.message}`,
+        details: {messageType: sqsMessage.type, retries: this.maxRetries},
+      })
+      throw error
+    }
   }
 
   validateConfig(): void {
@@ -16,10 +16,13 @@ class TokenChainService extends CoreChainService {
 
   allowance = async (account: string, operator: string): Promise<BigNumber> => this.token.allowance(account, operator)
 
-  approve = async (operator: string, amount: BigNumberish): Promise<TransactionReceipt> => {
-    const tx = await this.token.approve(operator, amount)
-    await tx.wait()
-    return tx
+  approve = async (operator: string, amount: BigNumberish): Promise<TransactionReceipt | null> => {
+    return this.networkMonitor.executeTransaction({
+      network: this.network,
+      contract: this.token,
+      methodName: 'approve',
+      args: [operator, amount],
+    })
   }
 }
 
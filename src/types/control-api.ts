@@ -0,0 +1,27 @@
+import {OperatorMode} from '../utils/network-monitor'
+
+export type OperatorControlStatus = {
+  mode: OperatorMode
+  networks: string[]
+  pausedNetworks: string[]
+  // Networks paused until the wallet can pay for their next job
+  balancePausedNetworks: string[]
+  approvedJobs: string[]
+  jobs: {[network: string]: {pending: number; failed: number; inFlight: number}}
+}
+
+/**
+ * Actions that the control API can take on a running operator
+ * Implementations throw a ControlApiRequestError when a request can not be fulfilled
+ */
+export interface OperatorController {
+  getControlStatus(): OperatorControlStatus
+  pauseNetwork(network: string): void
+  resumeNetwork(network: string): void
+  switchOperatorMode(mode: OperatorMode): void
+  enqueueJob(network: string, txHash: string): Promise<string>
+  approveJob(jobHash: string): void
+  dropJob(jobHash: string): void
+  retryJob(jobHash: string): void
+  refreshOperatorStatus(network: string): Promise<boolean>
+}
@@ -5,6 +5,11 @@ export interface PodBondAmounts {
   current: BigNumber
 }
 
+export interface PodInfo extends PodBondAmounts {
+  pod: number
+  operators: number
+}
+
 export type OperatorJobStructOutput = [
   number,
   number,
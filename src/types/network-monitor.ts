@@ -27,7 +27,43 @@ export type ExecuteTransactionParams = {
   attempts?: number
   canFail?: boolean
   interval?: number
-  waitForReceipt?: boolean
+  jobHash?: string
+}
+
+export enum TransactionReplacementType {
+  speedUp = 'speedUp',
+  cancel = 'cancel',
+}
+
+export type TransactionReplacement = {
+  network: string
+  jobHash?: string
+  tags: (string | number)[]
+  type: TransactionReplacementType
+  nonce: number
+  replacedHash: string
+  replacementHash?: string
+  gasPrice: string
+  timestamp: number
+  error?: string
+}
+
+export type WaitForTransactionParams = {
+  network: string
+  transaction: TransactionResponse
+  jobHash?: string
+  tags?: (string | number)[]
+  attempts?: number
+  interval?: number
+}
+
+export type ReplaceTransactionParams = {
+  network: string
+  transaction: TransactionResponse
+  type: TransactionReplacementType
+  gasPrice: BigNumber
+  jobHash?: string
+  tags?: (string | number)[]
 }
 
 export type SendTransactionParams = {
@@ -126,3 +162,14 @@ export interface InterestingEvent {
   allLogs: Log[]
   logs?: Log[]
 }
+
+// A chain reorganization, the blocks from fromBlock to toBlock are re-processed from the new canonical chain
+export interface ChainReorg {
+  network: string
+  // Last block that both chains share
+  commonAncestor: number
+  fromBlock: number
+  toBlock: number
+  // Blocks that were processed and are no longer on the canonical chain
+  orphanedBlocks: {number: number; hash: string}[]
+}
@@ -15,6 +15,7 @@ export enum SqsEventName {
   TransferERC721 = 'TransferERC721',
   FailedOperatorJob = 'FailedOperatorJob',
   TransferERC20 = 'TransferERC20',
+  ChainReorg = 'ChainReorg',
 }
 
 export type SqsMessageBody = {
@@ -32,6 +33,7 @@ export type SqsMessageBody = {
     | TransferEventPayload
     | FailedOperatorJobPayload
     | TransferERC20Payload
+    | ChainReorgPayload
 }
 
 export type MintEventPayload = {
@@ -78,3 +80,11 @@ export type TransferERC20Payload = {
   contractAddress: string
   value: string
 }
+
+// Messages sent for blocks from fromBlock to toBlock are rolled back, the blocks are re-processed and sent again
+export type ChainReorgPayload = {
+  commonAncestor: number
+  fromBlock: number
+  toBlock: number
+  orphanedBlocks: {blockNum: number; blockHash: string}[]
+}
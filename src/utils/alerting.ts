@@ -0,0 +1,206 @@
+import fetch from 'cross-fetch'
+
+import {ConfigAlerting, ConfigWebhook} from './config'
+
+export enum AlertEventType {
+  lowWalletBalance = 'lowWalletBalance',
+  jobFailed = 'jobFailed',
+  jobDeadLettered = 'jobDeadLettered',
+  providerDisconnected = 'providerDisconnected',
+  blockLag = 'blockLag',
+  chainReorg = 'chainReorg',
+  sqsSendFailed = 'sqsSendFailed',
+  error = 'error',
+}
+
+export enum AlertSeverity {
+  info = 'info',
+  warning = 'warning',
+  critical = 'critical',
+}
+
+export type AlertEvent = {
+  type: AlertEventType
+  severity: AlertSeverity
+  network?: string
+  message: string
+  details?: {[key: string]: string | number | boolean}
+  // Events with the same key are only delivered once per dedup window, defaults to the type, network and message
+  dedupKey?: string
+}
+
+type AlertPayloadEvent = AlertEvent & {
+  timestamp: string
+  source: string
+}
+
+// Thresholds used when the alerting config does not set them
+export const DEFAULT_PROVIDER_DISCONNECTED_SECONDS = 120
+export const DEFAULT_BLOCK_LAG = 50
+const DEFAULT_RATE_LIMIT = 30
+const DEFAULT_DEDUP_WINDOW = 300
+const WEBHOOK_TIMEOUT = 10_000
+
+/**
+ * Fills the {{placeholders}} of every string in a JSON template with the values of the event
+ * Nested values are reached with dots, e.g. {{details.jobHash}}. Unknown placeholders are left empty.
+ */
+export function renderAlertTemplate(template: any, event: AlertPayloadEvent): any {
+  if (typeof template === 'string') {
+    return template.replace(/{{\s*([\w.]+)\s*}}/g, (_match: string, field: string) => {
+      let value: any = event
+      for (const key of field.split('.')) {
+        value = value?.[key]
+      }
+
+      return value === undefined || value === null ? '' : String(value)
+    })
+  }
+
+  if (Array.isArray(template)) {
+    return template.map(item => renderAlertTemplate(item, event))
+  }
+
+  if (template !== null && typeof template === 'object') {
+    const rendered: {[key: string]: any} = {}
+    for (const [key, value] of Object.entries(template)) {
+      rendered[key] = renderAlertTemplate(value, event)
+    }
+
+    return rendered
+  }
+
+  return template
+}
+
+/**
+ * Webhooks that do not list their events get every event but errors, which are raised for every error log and carry
+ * variable messages that dedup can not collapse
+ */
+function isSubscribed(webhook: ConfigWebhook, type: AlertEventType): boolean {
+  return webhook.events === undefined ? type !== AlertEventType.error : webhook.events.includes(type)
+}
+
+/**
+ * Alerting
+ * Description: Process wide dispatcher of incident events to the webhooks of the alerting config.
+ * Every webhook is rate limited to a number of deliveries per minute, and repeats of an event delivered to a webhook
+ * are dropped within the dedup window so that a flapping provider does not flood the channel.
+ */
+export class Alerting {
+  private static _instance: Alerting
+  private config: ConfigAlerting = {webhooks: []}
+  private source = 'holograph-cli'
+  private log: (message: string) => void = console.log
+  // Keyed by the index of the webhook and the dedup key of the event
+  private lastDelivered: Map<string, number> = new Map()
+  private delivering: Set<string> = new Set()
+  private deliveries: Map<ConfigWebhook, number[]> = new Map()
+
+  static get Instance(): Alerting {
+    if (!Alerting._instance) {
+      Alerting._instance = new Alerting()
+    }
+
+    return Alerting._instance
+  }
+
+  get enabled(): boolean {
+    return this.config.webhooks.length > 0
+  }
+
+  get providerDisconnectedSeconds(): number {
+    return this.config.providerDisconnectedSeconds ?? DEFAULT_PROVIDER_DISCONNECTED_SECONDS
+  }
+
+  get blockLag(): number {
+    return this.config.blockLag ?? DEFAULT_BLOCK_LAG
+  }
+
+  configure(config: ConfigAlerting | undefined, source: string, log?: (message: string) => void): void {
+    this.config = config ?? {webhooks: []}
+    this.source = source
+    if (log !== undefined) {
+      this.log = log
+    }
+  }
+
+  /**
+   * Delivers the event to every webhook subscribed to its type, without waiting for the deliveries
+   */
+  emit(event: AlertEvent): void {
+    if (!this.enabled) {
+      return
+    }
+
+    const now = Date.now()
+    const dedupKey: string = event.dedupKey ?? `${event.type}:${event.network ?? ''}:${event.message}`
+    const dedupWindow: number = (this.config.dedupWindow ?? DEFAULT_DEDUP_WINDOW) * 1000
+    for (const [key, timestamp] of this.lastDelivered) {
+      if (now - timestamp >= dedupWindow) {
+        this.lastDelivered.delete(key)
+      }
+    }
+
+    const payloadEvent: AlertPayloadEvent = {...event, timestamp: new Date(now).toISOString(), source: this.source}
+    for (const [index, webhook] of this.config.webhooks.entries()) {
+      if (!isSubscribed(webhook, event.type)) {
+        continue
+      }
+
+      // Repeats are dropped while the event is being delivered, and within the dedup window once it was delivered
+      const webhookDedupKey = `${index}:${dedupKey}`
+      if (this.delivering.has(webhookDedupKey) || this.lastDelivered.has(webhookDedupKey)) {
+        continue
+      }
+
+      if (!this.takeDelivery(webhook, now)) {
+        this.log(`Alert ${event.type} was not delivered to ${webhook.url}, the webhook rate limit is reached`)
+        continue
+      }
+
+      this.deliver(webhook, payloadEvent, webhookDedupKey)
+    }
+  }
+
+  private takeDelivery(webhook: ConfigWebhook, now: number): boolean {
+    const recent: number[] = (this.deliveries.get(webhook) ?? []).filter(timestamp => now - timestamp < 60_000)
+    if (recent.length >= (webhook.rateLimit ?? DEFAULT_RATE_LIMIT)) {
+      this.deliveries.set(webhook, recent)
+      return false
+    }
+
+    recent.push(now)
+    this.deliveries.set(webhook, recent)
+    return true
+  }
+
+  private async deliver(webhook: ConfigWebhook, event: AlertPayloadEvent, dedupKey: string): Promise<void> {
+    const payload = webhook.template === undefined ? event : renderAlertTemplate(webhook.template, event)
+    let timeout: NodeJS.Timeout | undefined
+    this.delivering.add(dedupKey)
+    try {
+      const response = await Promise.race([
+        fetch(webhook.url, {
+          method: 'POST',
+          headers: {'Content-Type': 'application/json', ...webhook.headers},
+          body: JSON.stringify(payload),
+        }),
+        new Promise<never>((_resolve, reject) => {
+          timeout = setTimeout(() => reject(new Error('timed out')), WEBHOOK_TIMEOUT)
+        }),
+      ])
+      if (response.ok) {
+        this.lastDelivered.set(dedupKey, Date.now())
+      } else {
+        this.log(`Alert ${event.type} was rejected by ${webhook.url} with status ${response.status}`)
+      }
+    } catch (error: any) {
+      // Never routed through the error logs, which raise alerts themselves
+      this.log(`Alert ${event.type} could not be delivered to ${webhook.url}: ${error.message}`)
+    } finally {
+      clearTimeout(timeout)
+      this.delivering.delete(dedupKey)
+    }
+  }
+}
@@ -0,0 +1,53 @@
+export type BlockHistoryEntry = {
+  number: number
+  hash: string
+  parentHash?: string
+}
+
+// Blocks kept per network when the config does not set a reorg depth, deeper reorgs are re-processed from the oldest one
+export const DEFAULT_REORG_DEPTH = 64
+
+/**
+ * BlockHistory
+ * Description: The hashes of the most recent blocks processed on a network, used to detect chain reorganizations.
+ * Blocks processed by range only have the last block of each range recorded, so entries are not always contiguous.
+ */
+export class BlockHistory {
+  readonly depth: number
+  private entries: Map<number, BlockHistoryEntry> = new Map()
+
+  constructor(depth: number = DEFAULT_REORG_DEPTH) {
+    this.depth = depth
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  record(entry: BlockHistoryEntry): void {
+    this.entries.set(entry.number, entry)
+    for (const number of this.entries.keys()) {
+      if (number <= entry.number - this.depth) {
+        this.entries.delete(number)
+      }
+    }
+  }
+
+  /**
+   * Returns the recorded blocks below the block number, from the most recent to the oldest
+   */
+  before(blockNumber: number): BlockHistoryEntry[] {
+    return [...this.entries.values()].filter(entry => entry.number < blockNumber).sort((a, b) => b.number - a.number)
+  }
+
+  /**
+   * Forgets the blocks from the block number onwards, they are recorded again once re-processed
+   */
+  removeFrom(blockNumber: number): void {
+    for (const number of this.entries.keys()) {
+      if (number >= blockNumber) {
+        this.entries.delete(number)
+      }
+    }
+  }
+}
@@ -0,0 +1,93 @@
+export enum BlockTimestampMatch {
+  // First block mined at or after the time, for the start of a range
+  atOrAfter = 'atOrAfter',
+  // Last block mined at or before the time, for the end of a range
+  atOrBefore = 'atOrBefore',
+}
+
+export type BlockTimestampSource = {
+  getBlockNumber: () => Promise<number>
+  // In seconds, like the timestamp of a block
+  getBlockTimestamp: (blockNumber: number) => Promise<number>
+}
+
+// ISO 8601 date, with an optional time and time zone. E.g. 2024-05-01, 2024-05-01T10:00Z or 2024-05-01T10:00:00+02:00
+export const ISO_DATE_PATTERN = String.raw`\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)?(?:Z|[+-]\d{2}:?\d{2})?`
+
+const ISO_DATE_REGEX = new RegExp(`^${ISO_DATE_PATTERN}$`)
+
+export function isIsoDate(input: string): boolean {
+  return ISO_DATE_REGEX.test(input) && !Number.isNaN(Date.parse(input))
+}
+
+export function parseIsoDate(input: string): Date {
+  if (!isIsoDate(input)) {
+    throw new Error(`${input} is not a valid ISO date`)
+  }
+
+  return new Date(input)
+}
+
+/**
+ * BlockTimestampResolver
+ * Description: Finds the block of a network that was mined at a time, with a binary search over the block timestamps.
+ * Timestamps are cached, so resolving several times on the same network mostly reuses the blocks already fetched.
+ */
+export class BlockTimestampResolver {
+  private source: BlockTimestampSource
+  private timestamps: Map<number, number> = new Map()
+
+  constructor(source: BlockTimestampSource) {
+    this.source = source
+  }
+
+  async getTimestamp(blockNumber: number): Promise<number> {
+    let timestamp: number | undefined = this.timestamps.get(blockNumber)
+    if (timestamp === undefined) {
+      timestamp = await this.source.getBlockTimestamp(blockNumber)
+      this.timestamps.set(blockNumber, timestamp)
+    }
+
+    return timestamp
+  }
+
+  async findBlock(date: Date, match: BlockTimestampMatch): Promise<number> {
+    const time = Math.floor(date.getTime() / 1000)
+    const latestBlock: number = await this.source.getBlockNumber()
+    if (match === BlockTimestampMatch.atOrAfter) {
+      if ((await this.getTimestamp(latestBlock)) < time) {
+        throw new Error(`No block was mined at or after ${date.toISOString()}, the latest block is older`)
+      }
+
+      let low = 0
+      let high = latestBlock
+      while (low < high) {
+        const middle = Math.floor((low + high) / 2)
+        if ((await this.getTimestamp(middle)) >= time) {
+          high = middle
+        } else {
+          low = middle + 1
+        }
+      }
+
+      return low
+    }
+
+    if ((await this.getTimestamp(0)) > time) {
+      throw new Error(`No block was mined at or before ${date.toISOString()}, the first block is newer`)
+    }
+
+    let low = 0
+    let high = latestBlock
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2)
+      if ((await this.getTimestamp(middle)) <= time) {
+        low = middle
+      } else {
+        high = middle - 1
+      }
+    }
+
+    return low
+  }
+}
@@ -8,12 +8,70 @@ import {Environment, getEnvironment} from '@holographxyz/environment'
 import {NetworkKeys, supportedNetworks, networks} from '@holographxyz/networks'
 
 import AesEncryption from './aes-encryption'
+import {AlertEventType} from './alerting'
+import {ProviderEndpointRole} from './provider-endpoints'
 import {SelectOption} from './validation'
 
 export const CONFIG_FILE_NAME = 'config.json'
 
+export interface ConfigJobSelection {
+  // Minimum margin of the job payout over its estimated cost, in percent
+  minMarginPercent?: number
+  // Maximum estimated cost of a single job, in the network's native token
+  maxSpend?: string
+}
+
+export interface ConfigStuckTransaction {
+  // Number of blocks a transaction can stay pending before it is replaced
+  blocks?: number
+  // Percentage by which the gas price is bumped on every replacement
+  bumpPercent?: number
+  // Highest gas price a replacement can use, in gwei
+  maxGasPrice?: string
+  // Cancel the transaction with a zero-value self-send once the cap is reached
+  cancel?: boolean
+}
+
+export interface ConfigOperatorTiming {
+  // Seconds between blocks of the network. When set, the block times of a job count blocks instead of seconds
+  blockTime?: number
+  // Count the block times of a job in blocks of the block time measured by the operator instead of seconds
+  measureBlockTime?: boolean
+  // Seconds of each primary and fallback operator slot, used instead of the job block times
+  slotDuration?: number
+}
+
+export interface ConfigWalletBalance {
+  // Balance in the native token below which a warning is raised
+  warning?: string
+  // Balance in the native token below which the wallet can not be relied on to execute jobs
+  critical?: string
+}
+
+export interface ConfigProviderEndpoint {
+  url: string
+  // Endpoints with a higher weight are preferred, ties keep the order of the list
+  weight?: number
+  // Restricts the endpoint to the block subscription or to queries, it serves both when omitted
+  role?: ProviderEndpointRole
+}
+
 export interface ConfigNetwork {
-  providerUrl: string
+  // Single endpoint of the network, ignored when providerEndpoints is set
+  providerUrl?: string
+  providerEndpoints?: ConfigProviderEndpoint[]
+  operatorTiming?: ConfigOperatorTiming
+  jobSelection?: ConfigJobSelection
+  stuckTransaction?: ConfigStuckTransaction
+  // Number of operator jobs executed at the same time
+  concurrency?: number
+  walletBalance?: ConfigWalletBalance
+  // Blocks scanned on startup for jobs that are still open, when the operator starts from the latest block
+  backfillBlocks?: number
+  // Recent blocks kept to detect chain reorganizations, the deepest reorg that is fully re-processed
+  reorgDepth?: number
+  // Blocks a block has to be buried under before it is processed, 0 processes blocks as soon as they are mined
+  confirmations?: number
 }
 
 export interface ConfigNetworks {
@@ -30,10 +88,37 @@ export interface ConfigUser {
   credentials: ConfigCredentials
 }
 
+export interface ConfigOperator {
+  jobSelectionStrategy?: string
+}
+
+export interface ConfigWebhook {
+  url: string
+  // Alert event types delivered to the webhook, every type but error when omitted. Errors are only sent when listed
+  events?: AlertEventType[]
+  headers?: {[key: string]: string}
+  // JSON payload whose strings can hold {{placeholders}} of the event fields, the event itself when omitted
+  template?: any
+  // Deliveries per minute
+  rateLimit?: number
+}
+
+export interface ConfigAlerting {
+  webhooks: ConfigWebhook[]
+  // Seconds a provider can stay disconnected before an alert is raised
+  providerDisconnectedSeconds?: number
+  // Blocks the processed height can fall behind the network before an alert is raised
+  blockLag?: number
+  // Seconds during which repeats of the same alert are dropped
+  dedupWindow?: number
+}
+
 export interface ConfigFile {
   version: string
   networks: ConfigNetworks
   user: ConfigUser
+  operator?: ConfigOperator
+  alerting?: ConfigAlerting
 }
 
 export enum BlockProcessingVersion {
@@ -206,6 +291,40 @@ export function validateBeta3Schema(config: Record<string, unknown>): Joi.Valida
   for (const network of supportedNetworks) {
     networkObjects[network] = Joi.object({
       providerUrl: Joi.string(),
+      providerEndpoints: Joi.array()
+        .items(
+          Joi.object({
+            url: Joi.string()
+              .uri({scheme: ['http', 'https', 'ws', 'wss']})
+              .required(),
+            weight: Joi.number().min(0),
+            role: Joi.string().valid(...Object.values(ProviderEndpointRole)),
+          }),
+        )
+        .min(1),
+      jobSelection: Joi.object({
+        minMarginPercent: Joi.number(),
+        maxSpend: Joi.string().pattern(/^\d+(\.\d+)?$/),
+      }),
+      stuckTransaction: Joi.object({
+        blocks: Joi.number().integer().min(1),
+        bumpPercent: Joi.number().min(10),
+        maxGasPrice: Joi.string().pattern(/^\d+(\.\d+)?$/),
+        cancel: Joi.boolean(),
+      }),
+      concurrency: Joi.number().integer().min(1),
+      operatorTiming: Joi.object({
+        blockTime: Joi.number().positive(),
+        measureBlockTime: Joi.boolean(),
+        slotDuration: Joi.number().positive(),
+      }),
+      walletBalance: Joi.object({
+        warning: Joi.string().pattern(/^\d+(\.\d+)?$/),
+        critical: Joi.string().pattern(/^\d+(\.\d+)?$/),
+      }),
+      backfillBlocks: Joi.number().integer().min(0),
+      reorgDepth: Joi.number().integer().min(1),
+      confirmations: Joi.number().integer().min(0),
     })
   }
 
@@ -219,6 +338,27 @@ export function validateBeta3Schema(config: Record<string, unknown>): Joi.Valida
         address: Joi.string().required(),
       }).required(),
     }).required(),
+    operator: Joi.object({
+      jobSelectionStrategy: Joi.string().valid('default', 'profitability'),
+    }),
+    alerting: Joi.object({
+      webhooks: Joi.array()
+        .items(
+          Joi.object({
+            url: Joi.string()
+              .uri({scheme: ['http', 'https']})
+              .required(),
+            events: Joi.array().items(Joi.string().valid(...Object.values(AlertEventType))),
+            headers: Joi.object().pattern(Joi.string(), Joi.string()),
+            template: Joi.any(),
+            rateLimit: Joi.number().integer().min(1),
+          }),
+        )
+        .required(),
+      providerDisconnectedSeconds: Joi.number().positive(),
+      blockLag: Joi.number().integer().min(1),
+      dedupWindow: Joi.number().min(0),
+    }),
   })
     .required()
     .unknown(false)
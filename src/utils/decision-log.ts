@@ -0,0 +1,66 @@
+import * as path from 'node:path'
+import * as fs from 'fs-extra'
+
+import {JobSimulationOutcome} from './job-simulation'
+
+export enum DecisionLogEntryType {
+  decision = 'decision',
+  finished = 'finished',
+}
+
+// A job that went through selection and simulation, with what the operator would have sent for it
+export type OperatorDecision = {
+  type: DecisionLogEntryType.decision
+  timestamp: string
+  network: string
+  jobHash: string
+  strategy: string
+  outcome: JobSimulationOutcome
+  reason?: string
+  // In wei, the gas price of the job is the one the operator sends it with
+  gasPrice: string
+  gasLimit?: string
+  estimatedGas?: string
+  estimatedCost?: string
+  targetTime: string
+  // The contract let our operator execute the job at the time of the decision
+  ourTurn: boolean
+}
+
+// The FinishedOperatorJob event of a job that a decision was taken on
+export type OperatorDecisionOutcome = {
+  type: DecisionLogEntryType.finished
+  timestamp: string
+  network: string
+  jobHash: string
+  executor: string
+  transactionHash: string
+  blockNumber: number
+  blockTimestamp?: string
+  // Our turn came before the block that the executor got the job in
+  wouldHaveWon: boolean
+}
+
+export type DecisionLogEntry = OperatorDecision | OperatorDecisionOutcome
+
+export function getDecisionLogPath(configDir: string, environment: string): string {
+  return path.join(configDir, environment + '.operator-decisions.jsonl')
+}
+
+/**
+ * DecisionLog
+ * Description: Append only JSONL log of the decisions taken by the operator in simulate mode.
+ * Decisions and the FinishedOperatorJob events of their jobs are separate lines, joined on the job hash.
+ */
+export class DecisionLog {
+  readonly filePath: string
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+    fs.ensureDirSync(path.dirname(filePath))
+  }
+
+  append(entry: DecisionLogEntry): void {
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n')
+  }
+}
@@ -11,3 +11,30 @@ export class KnownTransactionError extends Error {
     this.name = 'KnownTransactionError'
   }
 }
+
+export class TransactionRevertedError extends Error {
+  constructor(transactionHash: string) {
+    super(`Transaction ${transactionHash} reverted`)
+    this.name = 'TransactionRevertedError'
+  }
+}
+
+export class JobSimulationRevertError extends Error {
+  reason: string
+
+  constructor(jobHash: string, reason: string) {
+    super(`Job ${jobHash} reverted in simulation: ${reason}`)
+    this.name = 'JobSimulationRevertError'
+    this.reason = reason
+  }
+}
+
+export class ControlApiRequestError extends Error {
+  statusCode: number
+
+  constructor(statusCode: number, message: string) {
+    super(message)
+    this.name = 'ControlApiRequestError'
+    this.statusCode = statusCode
+  }
+}
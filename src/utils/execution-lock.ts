@@ -0,0 +1,339 @@
+import * as path from 'node:path'
+import * as net from 'node:net'
+import * as fs from 'fs-extra'
+import {randomBytes} from 'node:crypto'
+
+import {sleep} from './utils'
+
+export enum ExecutionLockBackendType {
+  file = 'file',
+  redis = 'redis',
+}
+
+/**
+ * A store of expiring locks shared by the operator replicas
+ * Acquiring a lock that is already held by the same owner renews it
+ */
+export interface ExecutionLockBackend {
+  acquire(key: string, owner: string, ttl: number): Promise<boolean>
+  release(key: string, owner: string): Promise<void>
+  close(): Promise<void>
+}
+
+type FileLock = {
+  owner: string
+  expiresAt: number
+}
+
+// Attempts to take the guard of a lock file before giving up until the next acquire
+const LOCK_GUARD_ATTEMPTS = 10
+const LOCK_GUARD_RETRY_DELAY = 20
+// A guard older than this was left behind by a replica that died while holding it
+const LOCK_GUARD_STALE_TIME = 10_000
+
+/**
+ * FileLockBackend
+ * Description: Locks stored as files in a directory, for replicas that run on the same host or share a volume.
+ * Every change to a lock file happens while holding its guard, a directory that only one replica can create, so
+ * reading the lock, checking its owner and expiry and writing the new lock is atomic across replicas.
+ */
+export class FileLockBackend implements ExecutionLockBackend {
+  readonly directory: string
+
+  constructor(directory: string) {
+    this.directory = directory
+    fs.ensureDirSync(directory)
+  }
+
+  async acquire(key: string, owner: string, ttl: number): Promise<boolean> {
+    const lockPath = this.getLockPath(key)
+    const acquired: boolean | undefined = await this.withGuard(lockPath, () => {
+      const current: FileLock | undefined = this.readLock(lockPath)
+      if (current !== undefined && current.owner !== owner && current.expiresAt > Date.now()) {
+        return false
+      }
+
+      this.writeLock(lockPath, {owner, expiresAt: Date.now() + ttl})
+      return this.readLock(lockPath)?.owner === owner
+    })
+    return acquired === true
+  }
+
+  async release(key: string, owner: string): Promise<void> {
+    const lockPath = this.getLockPath(key)
+    await this.withGuard(lockPath, () => {
+      if (this.readLock(lockPath)?.owner === owner) {
+        fs.removeSync(lockPath)
+      }
+    })
+  }
+
+  async close(): Promise<void> {
+    // Nothing to close, locks are left to expire or be released
+  }
+
+  private getLockPath(key: string): string {
+    return path.join(this.directory, `${key.replace(/[^\w.-]/g, '_')}.lock`)
+  }
+
+  /**
+   * Runs the action while holding the guard of the lock file
+   * Returns undefined when another replica holds the guard for longer than the attempts last
+   */
+  private async withGuard<T>(lockPath: string, action: () => T): Promise<T | undefined> {
+    const guardPath = `${lockPath}.guard`
+    for (let attempt = 0; attempt < LOCK_GUARD_ATTEMPTS; attempt++) {
+      try {
+        fs.mkdirSync(guardPath)
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error
+        }
+
+        this.removeStaleGuard(guardPath)
+        await sleep(LOCK_GUARD_RETRY_DELAY)
+        continue
+      }
+
+      try {
+        return action()
+      } finally {
+        fs.rmdirSync(guardPath)
+      }
+    }
+
+    return undefined
+  }
+
+  private removeStaleGuard(guardPath: string): void {
+    try {
+      if (Date.now() - fs.statSync(guardPath).mtimeMs > LOCK_GUARD_STALE_TIME) {
+        fs.rmdirSync(guardPath)
+      }
+    } catch {
+      // Released in the meantime
+    }
+  }
+
+  private readLock(lockPath: string): FileLock | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(lockPath, 'utf8')) as FileLock
+    } catch {
+      return undefined
+    }
+  }
+
+  private writeLock(lockPath: string, lock: FileLock): void {
+    const tmpPath = `${lockPath}.${randomBytes(8).toString('hex')}.tmp`
+    fs.writeFileSync(tmpPath, JSON.stringify(lock))
+    fs.renameSync(tmpPath, lockPath)
+  }
+}
+
+export type RespValue = string | number | null | Error | RespValue[]
+
+const RESP_COMMAND_TIMEOUT = 5000
+// Renew or delete a lock only while the owner still holds it, as scripts so the check and the change are atomic
+const RENEW_LOCK_SCRIPT =
+  "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('PEXPIRE', KEYS[1], ARGV[2]) else return 0 end"
+const RELEASE_LOCK_SCRIPT =
+  "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) else return 0 end"
+
+/**
+ * Parses a single RESP value from the buffer, starting at offset
+ * Returns undefined when the buffer does not hold the whole value yet
+ */
+export function parseRespValue(buffer: Buffer, offset: number): [RespValue, number] | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset)
+  if (lineEnd === -1) {
+    return undefined
+  }
+
+  const type = String.fromCharCode(buffer[offset])
+  const line = buffer.toString('utf8', offset + 1, lineEnd)
+  switch (type) {
+    case '+':
+      return [line, lineEnd + 2]
+    case '-':
+      return [new Error(line), lineEnd + 2]
+    case ':':
+      return [Number(line), lineEnd + 2]
+    case '$': {
+      const length = Number(line)
+      if (length === -1) {
+        return [null, lineEnd + 2]
+      }
+
+      if (buffer.length < lineEnd + 2 + length + 2) {
+        return undefined
+      }
+
+      return [buffer.toString('utf8', lineEnd + 2, lineEnd + 2 + length), lineEnd + 2 + length + 2]
+    }
+
+    case '*': {
+      const length = Number(line)
+      if (length === -1) {
+        return [null, lineEnd + 2]
+      }
+
+      const values: RespValue[] = []
+      let next = lineEnd + 2
+      for (let i = 0; i < length; i++) {
+        const parsed = parseRespValue(buffer, next)
+        if (parsed === undefined) {
+          return undefined
+        }
+
+        values.push(parsed[0])
+        next = parsed[1]
+      }
+
+      return [values, next]
+    }
+
+    default:
+      throw new Error(`Unexpected RESP type ${type}`)
+  }
+}
+
+function encodeRespCommand(args: (string | number)[]): string {
+  return `*${args.length}\r\n` + args.map(arg => `$${Buffer.byteLength(String(arg))}\r\n${arg}\r\n`).join('')
+}
+
+/**
+ * RedisLockBackend
+ * Description: Locks stored as expiring keys on a server that speaks the Redis protocol.
+ * Only SET NX PX and EVAL of the two lock scripts are used, so any server implementing those can stand in for Redis.
+ */
+export class RedisLockBackend implements ExecutionLockBackend {
+  private readonly url: URL
+  private socket?: net.Socket
+  private connecting?: Promise<net.Socket>
+  private buffer: Buffer = Buffer.alloc(0)
+  private pending: {resolve: (value: RespValue) => void; reject: (error: Error) => void}[] = []
+
+  constructor(url: string) {
+    this.url = new URL(url)
+    if (this.url.protocol !== 'redis:') {
+      throw new Error(`Unsupported execution lock url ${url}, expected redis://host:port`)
+    }
+  }
+
+  async acquire(key: string, owner: string, ttl: number): Promise<boolean> {
+    if ((await this.command('SET', key, owner, 'NX', 'PX', ttl)) === 'OK') {
+      return true
+    }
+
+    return (await this.command('EVAL', RENEW_LOCK_SCRIPT, 1, key, owner, ttl)) === 1
+  }
+
+  async release(key: string, owner: string): Promise<void> {
+    await this.command('EVAL', RELEASE_LOCK_SCRIPT, 1, key, owner)
+  }
+
+  async close(): Promise<void> {
+    this.socket?.end()
+    this.socket = undefined
+  }
+
+  private async connect(): Promise<net.Socket> {
+    if (this.socket !== undefined && !this.socket.destroyed) {
+      return this.socket
+    }
+
+    if (this.connecting === undefined) {
+      this.connecting = new Promise<net.Socket>((resolve, reject) => {
+        const socket = net.createConnection({host: this.url.hostname, port: Number(this.url.port || 6379)})
+        socket.setTimeout(RESP_COMMAND_TIMEOUT)
+        socket.once('connect', () => resolve(socket))
+        socket.on('data', (data: Buffer) => this.onData(socket, data))
+        socket.on('timeout', () => socket.destroy(new Error('Execution lock server timed out')))
+        socket.on('error', (error: Error) => {
+          reject(error)
+          this.failPending(error)
+        })
+        socket.on('close', () => {
+          // A socket that was already dropped must not fail the commands sent on the next one
+          if (this.socket !== socket) {
+            return
+          }
+
+          this.socket = undefined
+          this.failPending(new Error('Execution lock server connection closed'))
+        })
+      })
+        .then(async socket => {
+          this.socket = socket
+          this.buffer = Buffer.alloc(0)
+          if (this.url.password !== '') {
+            await this.send(socket, ['AUTH', decodeURIComponent(this.url.password)])
+          }
+
+          const db = this.url.pathname.replace('/', '')
+          if (db !== '') {
+            await this.send(socket, ['SELECT', db])
+          }
+
+          return socket
+        })
+        .finally(() => {
+          this.connecting = undefined
+        })
+    }
+
+    return this.connecting
+  }
+
+  private async command(...args: (string | number)[]): Promise<RespValue> {
+    return this.send(await this.connect(), args)
+  }
+
+  private async send(socket: net.Socket, args: (string | number)[]): Promise<RespValue> {
+    const value: RespValue = await new Promise<RespValue>((resolve, reject) => {
+      this.pending.push({resolve, reject})
+      socket.write(encodeRespCommand(args))
+    })
+    if (value instanceof Error) {
+      throw value
+    }
+
+    return value
+  }
+
+  private onData(socket: net.Socket, data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data])
+    try {
+      let parsed = parseRespValue(this.buffer, 0)
+      while (parsed !== undefined) {
+        this.buffer = this.buffer.subarray(parsed[1])
+        this.pending.shift()?.resolve(parsed[0])
+        parsed = this.buffer.length > 0 ? parseRespValue(this.buffer, 0) : undefined
+      }
+    } catch (error: any) {
+      // Replies can no longer be matched to their commands, the next command reconnects
+      this.failPending(error)
+      this.buffer = Buffer.alloc(0)
+      this.socket = undefined
+      socket.destroy()
+    }
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending
+    this.pending = []
+    for (const request of pending) {
+      request.reject(error)
+    }
+  }
+}
+
+export function createExecutionLockBackend(type: ExecutionLockBackendType, location: string): ExecutionLockBackend {
+  switch (type) {
+    case ExecutionLockBackendType.redis:
+      return new RedisLockBackend(location)
+    case ExecutionLockBackendType.file:
+    default:
+      return new FileLockBackend(location)
+  }
+}
@@ -0,0 +1,123 @@
+import * as fs from 'fs-extra'
+import * as path from 'node:path'
+
+import {IntrinsicGasTooLowError, JobSimulationRevertError, TransactionRevertedError} from './errors'
+
+export enum JobFailureClass {
+  revert = 'revert',
+  underpriced = 'underpriced',
+  rpcTimeout = 'rpcTimeout',
+  intrinsicGasTooLow = 'intrinsicGasTooLow',
+  unknown = 'unknown',
+}
+
+export type JobRetryPolicy = {
+  maxAttempts: number
+  // Delay before the first retry, doubled on every following attempt
+  baseDelay: number
+}
+
+export type JobFailure = {
+  failureClass: JobFailureClass
+  message: string
+  timestamp: number
+}
+
+/* eslint-disable camelcase */
+// Entries are written in the format expected by `operator:recover --file`, with the job details next to it
+export type DeadLetterEntry = {
+  source_tx?: string
+  source_chain_id?: number
+  job_hash: string
+  network: string
+  payload: string
+  failure_class: JobFailureClass
+  attempts: number
+  error: string
+  timestamp: number
+}
+/* eslint-enable camelcase */
+
+export const JOB_RETRY_POLICIES: {[failureClass in JobFailureClass]: JobRetryPolicy} = {
+  [JobFailureClass.revert]: {maxAttempts: 3, baseDelay: 60_000},
+  [JobFailureClass.underpriced]: {maxAttempts: 10, baseDelay: 30_000},
+  [JobFailureClass.rpcTimeout]: {maxAttempts: 10, baseDelay: 5000},
+  // The gas limit is part of the job payload, so retrying will not make it any higher
+  [JobFailureClass.intrinsicGasTooLow]: {maxAttempts: 1, baseDelay: 0},
+  [JobFailureClass.unknown]: {maxAttempts: 5, baseDelay: 30_000},
+}
+
+const MAX_RETRY_DELAY = 3_600_000
+
+export function getDeadLetterFilePath(configDir: string, environment: string): string {
+  return path.join(configDir, environment + '.operator-dead-letter.json')
+}
+
+export function classifyJobFailure(error: any): JobFailureClass {
+  if (error instanceof IntrinsicGasTooLowError) {
+    return JobFailureClass.intrinsicGasTooLow
+  }
+
+  if (error instanceof TransactionRevertedError || error instanceof JobSimulationRevertError) {
+    return JobFailureClass.revert
+  }
+
+  const message = `${error?.code ?? ''} ${error?.reason ?? ''} ${error?.message ?? ''}`
+  if (/underpriced|fee too low|less than block base fee|gas price too low/i.test(message)) {
+    return JobFailureClass.underpriced
+  }
+
+  if (
+    /timeout|timed out|etimedout|econnreset|econnrefused|server_error|network_error|missing response/i.test(message)
+  ) {
+    return JobFailureClass.rpcTimeout
+  }
+
+  if (/revert|call_exception|unpredictable_gas_limit/i.test(message)) {
+    return JobFailureClass.revert
+  }
+
+  return JobFailureClass.unknown
+}
+
+/**
+ * Exponential backoff, capped at one hour
+ */
+export function getRetryDelay(policy: JobRetryPolicy, attempt: number): number {
+  return Math.min(policy.baseDelay * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_DELAY)
+}
+
+/**
+ * DeadLetterStore
+ * Description: JSON file of the jobs that ran out of retries. It can be passed as is to `operator:recover --file`.
+ */
+export class DeadLetterStore {
+  readonly filePath: string
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+  }
+
+  read(): DeadLetterEntry[] {
+    if (!fs.pathExistsSync(this.filePath)) {
+      return []
+    }
+
+    return fs.readJsonSync(this.filePath) as DeadLetterEntry[]
+  }
+
+  add(entry: DeadLetterEntry): void {
+    const entries: DeadLetterEntry[] = [...this.read().filter(item => item.job_hash !== entry.job_hash), entry]
+    this.write(entries)
+  }
+
+  remove(jobHash: string): void {
+    this.write(this.read().filter(item => item.job_hash !== jobHash))
+  }
+
+  private write(entries: DeadLetterEntry[]): void {
+    const tmpFilePath = this.filePath + '.tmp'
+    fs.writeJsonSync(tmpFilePath, entries, {spaces: 2})
+    fs.renameSync(tmpFilePath, this.filePath)
+  }
+}
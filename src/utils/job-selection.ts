@@ -0,0 +1,249 @@
+import {BigNumber} from '@ethersproject/bignumber'
+import {Contract} from '@ethersproject/contracts'
+import {formatUnits, parseUnits} from '@ethersproject/units'
+
+import {ConfigJobSelection, ConfigNetwork, ConfigNetworks} from './config'
+import {GasPricing} from './gas'
+import {NetworkMonitor} from './network-monitor'
+import {OperatorJob} from './operator-job'
+
+export enum JobSelectionStrategyType {
+  default = 'default',
+  profitability = 'profitability',
+}
+
+export enum JobSkipReason {
+  GAS_PRICE_TOO_LOW = 'GAS_PRICE_TOO_LOW',
+  ABOVE_MAX_SPEND = 'ABOVE_MAX_SPEND',
+  BELOW_MIN_MARGIN = 'BELOW_MIN_MARGIN',
+  NO_PAYOUT = 'NO_PAYOUT',
+  L1_FEE_UNAVAILABLE = 'L1_FEE_UNAVAILABLE',
+}
+
+export type JobSkip = {
+  jobHash: string
+  network: string
+  reason: JobSkipReason
+  details: {[key: string]: string | number}
+}
+
+export type JobSelection = {
+  job: OperatorJob | null
+  skipped: JobSkip[]
+}
+
+export interface JobSelectionStrategy {
+  readonly type: JobSelectionStrategyType
+  sortJobs(jobs: OperatorJob[]): OperatorJob[]
+  selectJob(network: string, jobs: OperatorJob[], gasPricing: GasPricing): Promise<JobSelection>
+}
+
+// OP stack rollups expose the L1 data fee of a transaction through the GasPriceOracle predeploy
+const OP_STACK_NETWORKS: Set<string> = new Set([
+  'optimism',
+  'optimismTestnetGoerli',
+  'optimismTestnetSepolia',
+  'base',
+  'baseTestnetGoerli',
+  'baseTestnetSepolia',
+  'zora',
+  'zoraTestnetGoerli',
+  'zoraTestnetSepolia',
+  'mantle',
+  'mantleTestnet',
+])
+const GAS_PRICE_ORACLE_ADDRESS = '0x420000000000000000000000000000000000000F'
+const GAS_PRICE_ORACLE_ABI = ['function getL1Fee(bytes _data) view returns (uint256)']
+const L1_FEE_CACHE_TTL = 60_000
+
+/**
+ * The gas price that a job has to offer at minimum, for the transaction not to be underpriced
+ */
+export function getMinimumGasPrice(gasPricing: GasPricing): BigNumber {
+  return gasPricing.isEip1559 ? gasPricing.nextBlockFee! : gasPricing.gasPrice!
+}
+
+/**
+ * The gas price that the network is expected to charge for the next block
+ */
+export function getEffectiveGasPrice(gasPricing: GasPricing): BigNumber {
+  if (gasPricing.isEip1559) {
+    return gasPricing.nextBlockFee!.add(gasPricing.nextPriorityFee ?? BigNumber.from(0))
+  }
+
+  return gasPricing.gasPrice!
+}
+
+/**
+ * DefaultJobSelectionStrategy
+ * Description: Picks the earliest job that offers at least the current network gas price.
+ */
+export class DefaultJobSelectionStrategy implements JobSelectionStrategy {
+  readonly type: JobSelectionStrategyType = JobSelectionStrategyType.default
+
+  // This function sorts jobs based on target time and then by gas price.
+  sortJobs(jobs: OperatorJob[]): OperatorJob[] {
+    const now = Date.now()
+    const validJobs = jobs.filter(job => job.targetTime < now)
+    return validJobs.sort((a, b) => {
+      const timeDiff = a.targetTime - b.targetTime
+      if (timeDiff !== 0) return timeDiff
+      return BigNumber.from(b.gasPrice).sub(BigNumber.from(a.gasPrice)).toNumber()
+    })
+  }
+
+  // This function selects the best job based on the provided gas pricing.
+  async selectJob(network: string, jobs: OperatorJob[], gasPricing: GasPricing): Promise<JobSelection> {
+    const compareGas: BigNumber = getMinimumGasPrice(gasPricing)
+    const skipped: JobSkip[] = []
+
+    for (const job of jobs) {
+      if (BigNumber.from(job.gasPrice).gte(compareGas)) {
+        return {job, skipped}
+      }
+
+      skipped.push({
+        jobHash: job.hash,
+        network,
+        reason: JobSkipReason.GAS_PRICE_TOO_LOW,
+        details: {jobGasPrice: BigNumber.from(job.gasPrice).toString(), networkGasPrice: compareGas.toString()},
+      })
+    }
+
+    return {job: null, skipped}
+  }
+}
+
+/**
+ * ProfitabilityJobSelectionStrategy
+ * Description: Picks the earliest job whose payout covers its estimated cost by the configured margin.
+ * The cost of a job is its gas limit at the effective network gas price, plus the L1 data fee on rollups.
+ * The payout of a job is its gas limit at the gas price that was paid for it on the source chain.
+ */
+export class ProfitabilityJobSelectionStrategy extends DefaultJobSelectionStrategy {
+  readonly type: JobSelectionStrategyType = JobSelectionStrategyType.profitability
+  networkMonitor: NetworkMonitor
+  private l1FeeCache: {[jobHash: string]: {fee: BigNumber; timestamp: number}} = {}
+
+  constructor(networkMonitor: NetworkMonitor) {
+    super()
+    this.networkMonitor = networkMonitor
+  }
+
+  getNetworkSettings(network: string): ConfigJobSelection {
+    const networkConfig = this.networkMonitor.configFile.networks[network as keyof ConfigNetworks] as
+      | ConfigNetwork
+      | undefined
+    return networkConfig?.jobSelection ?? {}
+  }
+
+  /**
+   * Drops the fees that outlived their TTL, which also drops the fees of jobs that left the queue
+   */
+  pruneL1FeeCache(): void {
+    const now = Date.now()
+    for (const [jobHash, {timestamp}] of Object.entries(this.l1FeeCache)) {
+      if (now - timestamp >= L1_FEE_CACHE_TTL) {
+        delete this.l1FeeCache[jobHash]
+      }
+    }
+  }
+
+  async getL1Fee(network: string, job: OperatorJob): Promise<BigNumber> {
+    if (!OP_STACK_NETWORKS.has(network)) {
+      return BigNumber.from(0)
+    }
+
+    const cached = this.l1FeeCache[job.hash]
+    if (cached !== undefined && Date.now() - cached.timestamp < L1_FEE_CACHE_TTL) {
+      return cached.fee
+    }
+
+    const gasPriceOracle = new Contract(
+      GAS_PRICE_ORACLE_ADDRESS,
+      GAS_PRICE_ORACLE_ABI,
+      this.networkMonitor.providers[network],
+    )
+    const data: string = this.networkMonitor.operatorContract.interface.encodeFunctionData('executeJob', [job.payload])
+    const fee: BigNumber = await gasPriceOracle.getL1Fee(data)
+    this.l1FeeCache[job.hash] = {fee, timestamp: Date.now()}
+
+    return fee
+  }
+
+  async selectJob(network: string, jobs: OperatorJob[], gasPricing: GasPricing): Promise<JobSelection> {
+    const {minMarginPercent, maxSpend} = this.getNetworkSettings(network)
+    const minimumGasPrice: BigNumber = getMinimumGasPrice(gasPricing)
+    const effectiveGasPrice: BigNumber = getEffectiveGasPrice(gasPricing)
+    const maxSpendWei: BigNumber | undefined = maxSpend === undefined ? undefined : parseUnits(maxSpend, 'ether')
+    const skipped: JobSkip[] = []
+    this.pruneL1FeeCache()
+
+    for (const job of jobs) {
+      const gasLimit = BigNumber.from(job.gasLimit)
+      const gasPrice = BigNumber.from(job.gasPrice)
+      const skip = (reason: JobSkipReason, details: {[key: string]: string | number}): void => {
+        skipped.push({jobHash: job.hash, network, reason, details})
+      }
+
+      if (gasPrice.lt(minimumGasPrice)) {
+        skip(JobSkipReason.GAS_PRICE_TOO_LOW, {
+          jobGasPrice: gasPrice.toString(),
+          networkGasPrice: minimumGasPrice.toString(),
+        })
+        continue
+      }
+
+      let l1Fee: BigNumber
+      try {
+        l1Fee = await this.getL1Fee(network, job)
+      } catch (error: any) {
+        skip(JobSkipReason.L1_FEE_UNAVAILABLE, {error: error.message})
+        continue
+      }
+
+      const cost: BigNumber = gasLimit.mul(effectiveGasPrice).add(l1Fee)
+      const payout: BigNumber = gasLimit.mul(gasPrice)
+      const details = {
+        cost: formatUnits(cost, 'ether'),
+        payout: formatUnits(payout, 'ether'),
+        l1Fee: formatUnits(l1Fee, 'ether'),
+        effectiveGasPrice: effectiveGasPrice.toString(),
+      }
+
+      if (maxSpendWei !== undefined && cost.gt(maxSpendWei)) {
+        skip(JobSkipReason.ABOVE_MAX_SPEND, {...details, maxSpend: maxSpend!})
+        continue
+      }
+
+      if (payout.isZero()) {
+        skip(JobSkipReason.NO_PAYOUT, details)
+        continue
+      }
+
+      // Margin in basis points, to keep the comparison in integer math
+      const marginBps: number = payout.sub(cost).mul(10_000).div(payout).toNumber()
+      if (minMarginPercent !== undefined && marginBps < minMarginPercent * 100) {
+        skip(JobSkipReason.BELOW_MIN_MARGIN, {...details, marginPercent: marginBps / 100, minMarginPercent})
+        continue
+      }
+
+      return {job, skipped}
+    }
+
+    return {job: null, skipped}
+  }
+}
+
+export function createJobSelectionStrategy(
+  type: JobSelectionStrategyType,
+  networkMonitor: NetworkMonitor,
+): JobSelectionStrategy {
+  switch (type) {
+    case JobSelectionStrategyType.profitability:
+      return new ProfitabilityJobSelectionStrategy(networkMonitor)
+    case JobSelectionStrategyType.default:
+    default:
+      return new DefaultJobSelectionStrategy()
+  }
+}
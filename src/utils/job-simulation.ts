@@ -0,0 +1,104 @@
+import {defaultAbiCoder} from '@ethersproject/abi'
+import {BigNumber} from '@ethersproject/bignumber'
+import {Contract} from '@ethersproject/contracts'
+
+export enum JobSimulationOutcome {
+  executable = 'executable',
+  alreadyFinished = 'alreadyFinished',
+  notOurTurn = 'notOurTurn',
+  willRevert = 'willRevert',
+}
+
+export type JobSimulation = {
+  outcome: JobSimulationOutcome
+  // Gas limit to send the job with, only set when the job is executable
+  gasLimit?: BigNumber
+  estimatedGas?: BigNumber
+  reason?: string
+}
+
+// Headroom added to the gas estimate, for state that changes between the simulation and the execution
+const GAS_LIMIT_BUFFER_PERCENT = 25
+// Selector of Error(string), the payload of a revert with a reason
+const ERROR_SELECTOR = '0x08c379a0'
+
+// Revert reasons of the operator contract that are not failures of the job itself
+const KNOWN_REVERT_OUTCOMES: {[reason: string]: JobSimulationOutcome} = {
+  'HOLOGRAPH: invalid job': JobSimulationOutcome.alreadyFinished,
+  'HOLOGRAPH: operator has time': JobSimulationOutcome.notOurTurn,
+  'HOLOGRAPH: invalid fallback': JobSimulationOutcome.notOurTurn,
+}
+
+function isRevertError(error: any): boolean {
+  const message = `${error?.code ?? ''} ${error?.reason ?? ''} ${error?.message ?? ''}`
+  return /revert|call_exception|unpredictable_gas_limit/i.test(message)
+}
+
+function decodeRevertData(data: any): string | undefined {
+  if (typeof data !== 'string' || !data.startsWith(ERROR_SELECTOR)) {
+    return undefined
+  }
+
+  try {
+    return defaultAbiCoder.decode(['string'], '0x' + data.slice(10))[0]
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Digs the revert reason out of the errors thrown by ethers, which nest the RPC error differently per call type
+ */
+export function decodeRevertReason(error: any): string | undefined {
+  if (error === undefined || error === null) {
+    return undefined
+  }
+
+  if (Array.isArray(error.errorArgs) && typeof error.errorArgs[0] === 'string') {
+    return error.errorArgs[0]
+  }
+
+  const reason: string | undefined = decodeRevertData(error.data) ?? decodeRevertData(error.error?.data)
+  if (reason !== undefined) {
+    return reason
+  }
+
+  if (typeof error.reason === 'string' && error.reason.startsWith('execution reverted: ')) {
+    return error.reason.slice('execution reverted: '.length)
+  }
+
+  return error.error === undefined ? undefined : decodeRevertReason(error.error)
+}
+
+export function classifyRevertReason(reason: string | undefined): JobSimulationOutcome {
+  return (reason !== undefined && KNOWN_REVERT_OUTCOMES[reason]) || JobSimulationOutcome.willRevert
+}
+
+/**
+ * Runs executeJob against the pending block, as the operator wallet, without sending it
+ * A job that goes through is estimated to get its gas limit, one that reverts is classified by its revert reason.
+ * Errors that are not reverts, like RPC failures, are thrown.
+ */
+export async function simulateOperatorJob(
+  contract: Contract,
+  from: string,
+  payload: string,
+  gasPrice: BigNumber,
+): Promise<JobSimulation> {
+  try {
+    await contract.callStatic.executeJob(payload, {from, gasPrice, blockTag: 'pending'})
+    const estimatedGas: BigNumber = await contract.estimateGas.executeJob(payload, {from, gasPrice})
+    return {
+      outcome: JobSimulationOutcome.executable,
+      estimatedGas,
+      gasLimit: estimatedGas.mul(100 + GAS_LIMIT_BUFFER_PERCENT).div(100),
+    }
+  } catch (error: any) {
+    if (!isRevertError(error)) {
+      throw error
+    }
+
+    const reason: string | undefined = decodeRevertReason(error)
+    return {outcome: classifyRevertReason(reason), reason: reason ?? 'unknown revert reason'}
+  }
+}
@@ -0,0 +1,121 @@
+import * as os from 'node:os'
+import {randomBytes} from 'node:crypto'
+
+import {ExecutionLockBackend} from './execution-lock'
+
+const LEADER_KEY = 'holograph:operator:leader'
+const JOB_KEY_PREFIX = 'holograph:operator:job:'
+// A leader that misses heartbeats for this long is replaced by a standby replica
+const LEADER_TTL = 10_000
+const HEARTBEAT_INTERVAL = 3000
+// Long enough to cover an execution that waits on a stuck transaction
+const JOB_LOCK_TTL = 10 * 60 * 1000
+
+type LeaderElectionOptions = {
+  backend: ExecutionLockBackend
+  owner?: string
+  log?: (message: string) => void
+  // Awaited before the replica acts as the leader, to catch up on what the previous leader did
+  onLeadershipGained?: () => Promise<void>
+}
+
+/**
+ * LeaderElection
+ * Description: Elects the one operator replica that executes jobs, among replicas that share a wallet.
+ * Every replica keeps following blocks and tracking jobs, only the leader executes them. The leader renews its lock
+ * on every heartbeat, when it stops a standby replica takes over as soon as the lock expires.
+ * Jobs are also locked one by one, so a replica that lost leadership mid-execution never overlaps with the new leader.
+ */
+export class LeaderElection {
+  readonly owner: string
+  private backend: ExecutionLockBackend
+  private log?: (message: string) => void
+  private onLeadershipGained?: () => Promise<void>
+  private leader = false
+  private heartbeat?: NodeJS.Timer
+  private electing = false
+
+  constructor({backend, owner, log, onLeadershipGained}: LeaderElectionOptions) {
+    this.backend = backend
+    this.owner = owner ?? `${os.hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`
+    this.log = log
+    this.onLeadershipGained = onLeadershipGained
+  }
+
+  get isLeader(): boolean {
+    return this.leader
+  }
+
+  async start(): Promise<void> {
+    await this.elect()
+    this.heartbeat = setInterval(() => this.elect(), HEARTBEAT_INTERVAL)
+  }
+
+  async stop(): Promise<void> {
+    if (this.heartbeat !== undefined) {
+      clearInterval(this.heartbeat)
+      this.heartbeat = undefined
+    }
+
+    try {
+      if (this.leader) {
+        await this.backend.release(LEADER_KEY, this.owner)
+      }
+
+      await this.backend.close()
+    } catch (error: any) {
+      this.log?.(`Failed to release the leadership of ${this.owner}: ${error.message}`)
+    }
+
+    this.leader = false
+  }
+
+  async lockJob(jobHash: string): Promise<boolean> {
+    if (!this.leader) {
+      return false
+    }
+
+    try {
+      return await this.backend.acquire(JOB_KEY_PREFIX + jobHash, this.owner, JOB_LOCK_TTL)
+    } catch (error: any) {
+      this.log?.(`Failed to lock job ${jobHash}: ${error.message}`)
+      return false
+    }
+  }
+
+  async unlockJob(jobHash: string): Promise<void> {
+    try {
+      await this.backend.release(JOB_KEY_PREFIX + jobHash, this.owner)
+    } catch (error: any) {
+      this.log?.(`Failed to release the lock on job ${jobHash}: ${error.message}`)
+    }
+  }
+
+  private async elect(): Promise<void> {
+    // A slow lock backend must not stack up heartbeats
+    if (this.electing) {
+      return
+    }
+
+    this.electing = true
+    let leader: boolean
+    try {
+      leader = await this.backend.acquire(LEADER_KEY, this.owner, LEADER_TTL)
+      if (leader && !this.leader) {
+        await this.onLeadershipGained?.()
+      }
+    } catch (error: any) {
+      // Without the lock backend there is no way to know that no other replica leads, so stand by
+      this.log?.(`Leader election failed: ${error.message}`)
+      leader = false
+    } finally {
+      this.electing = false
+    }
+
+    if (leader !== this.leader) {
+      this.log?.(leader ? `Replica ${this.owner} is now the leader` : `Replica ${this.owner} is now on standby`)
+    }
+
+    this.leader = leader
+  }
+}
@@ -0,0 +1,134 @@
+export enum MetricType {
+  counter = 'counter',
+  gauge = 'gauge',
+}
+
+export type MetricLabels = {[label: string]: string | number}
+
+type MetricSample = {
+  labels: MetricLabels
+  value: number
+}
+
+export type MetricsCollector = () => void | Promise<void>
+
+function escapeLabelValue(value: string | number): string {
+  return String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function labelsKey(labels: MetricLabels): string {
+  return Object.keys(labels)
+    .sort()
+    .map(label => `${label}="${escapeLabelValue(labels[label])}"`)
+    .join(',')
+}
+
+/**
+ * Metric
+ * Description: A named counter or gauge, holding one sample per distinct set of labels
+ */
+export class Metric {
+  readonly name: string
+  readonly help: string
+  readonly type: MetricType
+  private samples: Map<string, MetricSample> = new Map()
+
+  constructor(name: string, help: string, type: MetricType) {
+    this.name = name
+    this.help = help
+    this.type = type
+  }
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    const key = labelsKey(labels)
+    const sample = this.samples.get(key)
+    if (sample === undefined) {
+      this.samples.set(key, {labels, value})
+    } else {
+      sample.value += value
+    }
+  }
+
+  set(labels: MetricLabels, value: number): void {
+    if (this.type === MetricType.counter) {
+      throw new Error(`Counter ${this.name} can only be incremented`)
+    }
+
+    this.samples.set(labelsKey(labels), {labels, value})
+  }
+
+  reset(): void {
+    this.samples.clear()
+  }
+
+  render(): string {
+    const lines: string[] = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`]
+    for (const [key, sample] of this.samples) {
+      lines.push(`${this.name}${key === '' ? '' : `{${key}}`} ${sample.value}`)
+    }
+
+    return lines.join('\n')
+  }
+}
+
+/**
+ * MetricsRegistry
+ * Description: Process wide registry of metrics, rendered in the Prometheus text exposition format.
+ * Collectors are called right before rendering, so that gauges derived from in-memory state are always current.
+ */
+export class MetricsRegistry {
+  private static _instance: MetricsRegistry
+  private metrics: Map<string, Metric> = new Map()
+  private collectors: MetricsCollector[] = []
+
+  static get Instance(): MetricsRegistry {
+    if (!MetricsRegistry._instance) {
+      MetricsRegistry._instance = new MetricsRegistry()
+    }
+
+    return MetricsRegistry._instance
+  }
+
+  counter(name: string, help: string): Metric {
+    return this.getOrCreate(name, help, MetricType.counter)
+  }
+
+  gauge(name: string, help: string): Metric {
+    return this.getOrCreate(name, help, MetricType.gauge)
+  }
+
+  registerCollector(collector: MetricsCollector): void {
+    this.collectors.push(collector)
+  }
+
+  async render(): Promise<string> {
+    for (const collector of this.collectors) {
+      await collector()
+    }
+
+    return [...this.metrics.values()].map(metric => metric.render()).join('\n') + '\n'
+  }
+
+  private getOrCreate(name: string, help: string, type: MetricType): Metric {
+    let metric = this.metrics.get(name)
+    if (metric === undefined) {
+      metric = new Metric(name, help, type)
+      this.metrics.set(name, metric)
+    } else if (metric.type !== type) {
+      throw new Error(`Metric ${name} is already registered as a ${metric.type}`)
+    }
+
+    return metric
+  }
+}
+
+export const metrics: {[name: string]: () => Metric} = {
+  rpcErrors: () => MetricsRegistry.Instance.counter('holograph_rpc_errors_total', 'RPC call failures by method'),
+  walletBalance: () =>
+    MetricsRegistry.Instance.gauge('holograph_wallet_balance', 'Wallet balance in the native token of the network'),
+  executedJobs: () =>
+    MetricsRegistry.Instance.counter('holograph_operator_jobs_executed_total', 'Operator jobs executed successfully'),
+  failedJobs: () =>
+    MetricsRegistry.Instance.counter('holograph_operator_jobs_failed_total', 'Operator jobs that failed to execute'),
+  chainReorgs: () => MetricsRegistry.Instance.counter('holograph_chain_reorgs_total', 'Chain reorganizations detected'),
+}
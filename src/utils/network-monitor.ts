@@ -7,7 +7,7 @@ import color from '@oclif/color'
 import {Wallet} from '@ethersproject/wallet'
 import {Contract, PopulatedTransaction} from '@ethersproject/contracts'
 import {BigNumber} from '@ethersproject/bignumber'
-import {formatUnits} from '@ethersproject/units'
+import {formatUnits, parseUnits} from '@ethersproject/units'
 import {keccak256} from '@ethersproject/keccak256'
 import {defaultAbiCoder} from '@ethersproject/abi'
 import {WebSocketProvider, JsonRpcProvider} from '@ethersproject/providers'
@@ -56,21 +56,42 @@ import {
   SendTransactionParams,
   TransactionParams,
   WalletParams,
+  WaitForTransactionParams,
+  ReplaceTransactionParams,
+  TransactionReplacement,
+  TransactionReplacementType,
   InterestingLog,
   InterestingTransaction,
   InterestingEvent,
+  ChainReorg,
 } from '../types/network-monitor'
 import {BlockHeightOptions} from '../flags/update-block-height.flag'
 import {NETWORK_COLORS, zeroAddress} from './web3'
 import {IntrinsicGasTooLowError, KnownTransactionError} from './errors'
 import {ProtocolEvent, protocolEventsMap} from './protocol-events-map'
+import {metrics} from './metrics'
+import {NonceManager} from './nonce-manager'
+import {PendingTransaction, PendingTransactionStore} from './pending-transactions'
+import {AlertEventType, AlertSeverity, Alerting} from './alerting'
+import {
+  getProviderEndpoints,
+  isProviderError,
+  isWebSocketUrl,
+  ProviderEndpointHealth,
+  ProviderEndpointPool,
+  ProviderEndpointRole,
+} from './provider-endpoints'
+import {BlockHistory, BlockHistoryEntry, DEFAULT_REORG_DEPTH} from './block-history'
+import {isBlockRange, isReplayEnabled, parseReplayInputs, ReplayBound, ReplayInput, ReplayRange} from './replay'
+import {BlockTimestampMatch, BlockTimestampResolver} from './block-timestamp'
 
 export const replayFlag = {
   replay: Flags.string({
-    description: 'Replay block processing. Run between the closed range defined. E.g. 30909:30999',
+    description:
+      'Replay block processing. Run between the closed range defined. E.g. 30909:30999, or per network with one flag for each network. E.g. ethereum=18000000:18000500 polygon=49000000:. ISO dates can replace block numbers, and are resolved on each network. E.g. 2024-05-01T10:00Z:2024-05-01T12:00Z',
     aliases: ['repair'],
     deprecateAliases: true,
-    default: '0',
+    multiple: true,
     char: 'r',
   }),
 }
@@ -104,6 +125,14 @@ export enum OperatorMode {
   listen = 'listen',
   manual = 'manual',
   auto = 'auto',
+  // Selects and simulates jobs like auto, but records the decisions instead of sending transactions
+  simulate = 'simulate',
+}
+
+export enum WalletBalanceLevel {
+  ok = 'ok',
+  warning = 'warning',
+  critical = 'critical',
 }
 
 export enum ProviderStatus {
@@ -147,6 +176,27 @@ export type TransactionFilter = {
 
 const TIMEOUT_THRESHOLD = 60_000
 
+// Defaults used to detect and replace stuck transactions, when a network does not configure its own
+const STUCK_TRANSACTION_BLOCKS = 5
+const STUCK_TRANSACTION_BUMP_PERCENT = 15
+// Time given to in-flight transactions to confirm on shutdown, in milliseconds
+export const DEFAULT_DRAIN_TIMEOUT = 30_000
+// Query errors in a row after which queries fail over to the next endpoint
+const QUERY_FAILOVER_THRESHOLD = 3
+// Interval between probes of the primary endpoint, while a network runs on a fallback one
+const FAIL_BACK_CHECK_INTERVAL = 60_000
+const FAIL_BACK_PROBE_TIMEOUT = 10_000
+
+// Critical wallet balances in wei, for networks that do not configure their own
+const DEFAULT_CRITICAL_WALLET_BALANCES: {[network: string]: string} = {
+  polygon: '2500000000000000',
+  ethereum: '5400000000000000',
+  avalanche: '10000000000000000',
+  binanceSmartChain: '740000000000000',
+  optimism: '54000000000000',
+  arbitrumOne: '100000000000000',
+}
+
 const ZERO = BigNumber.from('0')
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const ONE = BigNumber.from('1')
@@ -269,10 +319,12 @@ type NetworkMonitorOptions = {
   debug: (...args: string[]) => void
   processLogs?: (job: BlockJob, transactions: InterestingLog[]) => Promise<void> // NOTICE: blockProcessingVersion V1
   processEvents?: (job: BlockJob, interestingEvents: InterestingEvent[]) => Promise<void> // NOTICE: blockProcessingVersion V2
+  processReorg?: (reorg: ChainReorg) => Promise<void>
+  processHead?: (network: string, blockNumber: number) => Promise<void>
   filters?: TransactionFilter[]
   userWallet?: Wallet
   lastBlockFilename?: string
-  replay?: string
+  replay?: string[]
   verbose?: boolean
   apiService?: ApiService
   BlockHeightOptions?: BlockHeightOptions
@@ -293,6 +345,9 @@ export class NetworkMonitor {
   filters: TransactionFilter[] = []
   processLogs: ((job: BlockJob, transactions: InterestingLog[]) => Promise<void>) | undefined
   processEvents?: (job: BlockJob, interestingEvents: InterestingEvent[]) => Promise<void> | undefined
+  processReorg?: (reorg: ChainReorg) => Promise<void>
+  // Called with each new head that still waits for its confirmations, for work that can not wait for them
+  processHead?: (network: string, blockNumber: number) => Promise<void>
   log: (message: string, ...args: any[]) => void
   warn: (message: string, ...args: any[]) => void
   debug: (...args: any[]) => void
@@ -307,22 +362,36 @@ export class NetworkMonitor {
   cxipERC721Address!: string
   messagingModuleAddress!: string
   wallets: {[key: string]: Wallet} = {}
-  walletNonces: {[key: string]: number} = {}
+  nonceManagers: {[key: string]: NonceManager} = {}
   providers: {[key: string]: JsonRpcProvider | WebSocketProvider} = {}
+  // Providers that new blocks are subscribed on, the query provider of the network when both use the same endpoint
+  subscriptionProviders: {[key: string]: JsonRpcProvider | WebSocketProvider} = {}
+  queryEndpoints: {[key: string]: ProviderEndpointPool} = {}
+  subscriptionEndpoints: {[key: string]: ProviderEndpointPool} = {}
+  private lastFailBackCheck: {[key: string]: number} = {}
   ws: {[key: string]: WebSocket} = {}
   activated: {[key: string]: boolean} = {}
   abiCoder = defaultAbiCoder
   networkColors: any = {}
   latestBlockHeight: {[key: string]: number} = {}
   currentBlockHeight: {[key: string]: number} = {}
+  // Last block pushed to the block jobs of each network, which trails the head by the confirmations of the network
+  queuedBlockHeight: {[key: string]: number} = {}
   blockJobs: {[key: string]: BlockJob[]} = {}
   exited = false
   lastProcessBlockDone: {[key: string]: number} = {}
   lastBlockJobDone: {[key: string]: number} = {}
+  // When each network lost its provider, until blocks are processed again
+  providerDisconnectedSince: {[key: string]: number} = {}
   processBlocksByRange: {[key: string]: boolean} = {}
   greedy = false
   blockJobMonitorProcess: {[key: string]: NodeJS.Timer} = {}
   gasPrices: {[key: string]: GasPricing} = {}
+  // Average number of seconds between blocks, measured from the recent blocks processed on each network
+  blockTimes: {[key: string]: number} = {}
+  private lastBlockSample: {[key: string]: {number: number; timestamp: number}} = {}
+  // Hashes of the recent blocks processed on each network, to detect chain reorganizations
+  blockHistory: {[key: string]: BlockHistory} = {}
   contracts: Partial<IContracts> = {}
   holograph!: Contract
   holographer!: Contract
@@ -364,20 +433,25 @@ export class NetworkMonitor {
   }
 
   needToSubscribe = false
-  replayBlockStart = 0
-  replayBlockEnd: number | undefined
+  // Blocks replayed on each network, only the networks with a range are monitored in replay mode
+  replayRanges: {[key: string]: ReplayRange} = {}
+  blockTimestampResolvers: {[key: string]: BlockTimestampResolver} = {}
 
   getProviderStatus(): {[key: string]: ProviderStatus} {
     const output: {[key: string]: ProviderStatus} = {}
 
     for (const network of supportedNetworks) {
       const networkConfig = this.configFile.networks[network]
-      if (networkConfig?.providerUrl) {
-        output[network] = this.providers[network]
-          ? this.ws[network]?.readyState === WebSocket.OPEN
-            ? ProviderStatus.CONNECTED
-            : ProviderStatus.DISCONNECTED
-          : ProviderStatus.DISCONNECTED
+      if (networkConfig?.providerUrl || networkConfig?.providerEndpoints) {
+        const subscriptionEndpoints: ProviderEndpointPool | undefined = this.subscriptionEndpoints[network]
+        let connected = false
+        if (this.providers[network] && subscriptionEndpoints) {
+          connected = isWebSocketUrl(subscriptionEndpoints.active.url)
+            ? this.ws[network]?.readyState === WebSocket.OPEN
+            : this.providerDisconnectedSince[network] === undefined
+        }
+
+        output[network] = connected ? ProviderStatus.CONNECTED : ProviderStatus.DISCONNECTED
       } else {
         output[network] = ProviderStatus.NOT_CONFIGURED
       }
@@ -386,6 +460,21 @@ export class NetworkMonitor {
     return output
   }
 
+  /**
+   * Health of the query and subscription endpoints of every monitored network
+   */
+  getProviderEndpointHealth(): {[key: string]: ProviderEndpointHealth[]} {
+    const output: {[key: string]: ProviderEndpointHealth[]} = {}
+    for (const network of this.networks) {
+      output[network] = [
+        ...(this.queryEndpoints[network]?.health() ?? []),
+        ...(this.subscriptionEndpoints[network]?.health() ?? []),
+      ]
+    }
+
+    return output
+  }
+
   checkConnectionStatus(): void {
     for (const network of this.networks) {
       if (!this.activated[network]) {
@@ -396,18 +485,36 @@ export class NetworkMonitor {
     }
   }
 
-  validateReplayFlagInput(input: string): boolean {
-    if (/([1-9]\d*|0):([1-9]\d*)/.test(input)) {
-      // expected type: 8987:8988
-      const startAndEndBlock = input.split(':').map(int => Number(int))
-      if (startAndEndBlock[0] > startAndEndBlock[1]) {
-        throw new Error('End block must be greater than start block number.')
+  /**
+   * Assigns the replay inputs to the networks they are for, and narrows the networks monitored down to them
+   * A block range without a network is only accepted when a single network is monitored, block numbers differ per
+   * network. A range of dates without a network is resolved on every network.
+   */
+  setReplayRanges(inputs: ReplayInput[]): void {
+    for (const {network, range} of inputs) {
+      if (network === undefined) {
+        if (isBlockRange(range) && this.networks.length > 1) {
+          throw new Error(
+            'Replay block ranges without a network need a single network. Use network=start:end to replay multiple networks',
+          )
+        }
+
+        for (const monitoredNetwork of this.networks) {
+          this.replayRanges[monitoredNetwork] = range
+        }
+
+        continue
+      }
+
+      const networkKey = supportedShortNetworks.includes(network) ? getNetworkByShortKey(network).key : network
+      if (!this.networks.includes(networkKey)) {
+        throw new Error(`Replay range is set for ${network}, which is not one of the networks monitored`)
       }
 
-      return true
+      this.replayRanges[networkKey] = range
     }
 
-    return /[1-9]\d*/.test(input)
+    this.networks = this.networks.filter(network => network in this.replayRanges)
   }
 
   constructor(options: NetworkMonitorOptions) {
@@ -418,6 +525,7 @@ export class NetworkMonitor {
     this.log = this.parent.log.bind(this.parent)
     this.warn = this.parent.warn.bind(this.parent)
     this.debug = options.debug.bind(this.parent)
+    Alerting.Instance.configure(this.configFile.alerting, this.parent.id ?? 'holograph-cli', this.log)
 
     if (options.filters !== undefined) {
       this.filters = options.filters
@@ -445,18 +553,16 @@ export class NetworkMonitor {
       this.blockProcessingVersion = BlockProcessingVersion.V1
     }
 
-    if (options.userWallet !== undefined) {
-      this.userWallet = options.userWallet
+    if (options.processReorg !== undefined) {
+      this.processReorg = options.processReorg.bind(this.parent)
     }
 
-    if (options.replay !== undefined && options.replay !== '0') {
-      if (!this.validateReplayFlagInput(options.replay)) {
-        throw new Error('Replay flag input format is not valid')
-      }
+    if (options.processHead !== undefined) {
+      this.processHead = options.processHead.bind(this.parent)
+    }
 
-      const replayRangeBlock = options.replay.split(':').map(int => Number(int))
-      this.replayBlockStart = replayRangeBlock[0]
-      this.replayBlockEnd = replayRangeBlock.length === 2 ? replayRangeBlock[1] : undefined
+    if (options.userWallet !== undefined) {
+      this.userWallet = options.userWallet
     }
 
     if (options.networks === undefined || '') {
@@ -499,21 +605,16 @@ export class NetworkMonitor {
 
     this.networks = [...new Set(options.networks)]
 
+    if (isReplayEnabled(options.replay)) {
+      this.setReplayRanges(parseReplayInputs(options.replay!))
+    }
+
     if (options.processBlockRange) {
       for (const network of this.networks) {
         this.processBlocksByRange[network] = true
       }
     }
 
-    // Replay can only be used with a single network at a time since the block number provided to the replay flag is global
-    // This can be updated in the future to support multiple networks with different block numbers simple logic is preferred for now
-    if (this.replayBlockStart > 0 && this.networks.length > 1) {
-      this.log(
-        'Replay mode is not supported for multiple networks. Please use a single network with desired replay block height',
-      )
-      this.exitRouter({exit: true}, 'SIGINT')
-    }
-
     // Color the networks 🌈
     for (let i = 0, l = this.networks.length; i < l; i++) {
       const network = this.networks[i]
@@ -562,7 +663,7 @@ export class NetworkMonitor {
         this.needToSubscribe = true
       }
 
-      if (this.replayBlockEnd === undefined) {
+      if (this.replayRanges[network]?.end === undefined) {
         // Subscribe to events 🎧
         this.networkSubscribe(network)
       }
@@ -591,26 +692,75 @@ export class NetworkMonitor {
   }
 
   // This function checks the wallet balances of the operator wallet as the command boots up.
-  // If the operator wallet has less than the min gas, then throw an error.
+  // If the operator wallet is at or below the critical balance of a network, then throw an error.
   // Otherwise, it will continue and process jobs.
   async checkWalletBalances(address: string, networks: number[]): Promise<void> {
-    const minGasBalance: any = {
-      polygon: BigNumber.from('2500000000000000'),
-      ethereum: BigNumber.from('5400000000000000'),
-      avalanche: BigNumber.from('10000000000000000'),
-      binanceSmartChain: BigNumber.from('740000000000000'),
-      optimism: BigNumber.from('54000000000000'),
-      arbitrumOne: BigNumber.from('100000000000000'),
-    }
     for (const network of networks) {
       const networkName = getNetworkByChainId(network).key
-      const balance = await this.providers[networkName].getBalance(address)
-      if (balance.lte(minGasBalance[networkName])) {
+      const {level} = await this.checkWalletBalance(networkName, address)
+      if (level === WalletBalanceLevel.critical) {
         throw new Error(`Balance for ${networkName} is too low`)
       }
     }
   }
 
+  /**
+   * Returns the warning and critical balances of a network, from its config or the defaults
+   * Without a configured warning balance, warnings start at twice the critical balance
+   */
+  getWalletBalanceThresholds(network: string): {warning?: BigNumber; critical?: BigNumber} {
+    const walletBalance = (this.configFile.networks[network as keyof ConfigNetworks] as ConfigNetwork | undefined)
+      ?.walletBalance
+    let critical: BigNumber | undefined
+    if (walletBalance?.critical !== undefined) {
+      critical = parseUnits(walletBalance.critical, 'ether')
+    } else if (network in DEFAULT_CRITICAL_WALLET_BALANCES) {
+      critical = BigNumber.from(DEFAULT_CRITICAL_WALLET_BALANCES[network])
+    }
+
+    const warning: BigNumber | undefined =
+      walletBalance?.warning === undefined ? critical?.mul(TWO) : parseUnits(walletBalance.warning, 'ether')
+    return {warning, critical}
+  }
+
+  /**
+   * Fetches the balance of the wallet on a network and compares it with the thresholds of the network
+   * Low balances are logged and alerted
+   */
+  async checkWalletBalance(network: string, address: string): Promise<{balance: BigNumber; level: WalletBalanceLevel}> {
+    const balance: BigNumber = await this.getBalance({network, walletAddress: address, attempts: 3})
+    const {warning, critical} = this.getWalletBalanceThresholds(network)
+    let level: WalletBalanceLevel = WalletBalanceLevel.ok
+    let threshold: BigNumber | undefined
+    if (critical !== undefined && balance.lte(critical)) {
+      level = WalletBalanceLevel.critical
+      threshold = critical
+    } else if (warning !== undefined && balance.lte(warning)) {
+      level = WalletBalanceLevel.warning
+      threshold = warning
+    }
+
+    if (threshold !== undefined) {
+      const message = `Wallet balance of ${formatUnits(
+        balance,
+        'ether',
+      )} is at or below the ${level} balance of ${formatUnits(threshold, 'ether')}`
+      // Not logged as an error, the alert below is more specific than the one raised for errors
+      this.structuredLog(network, level === WalletBalanceLevel.critical ? color.red(message) : color.yellow(message))
+
+      Alerting.Instance.emit({
+        type: AlertEventType.lowWalletBalance,
+        severity: level === WalletBalanceLevel.critical ? AlertSeverity.critical : AlertSeverity.warning,
+        network,
+        message,
+        details: {address, balance: formatUnits(balance, 'ether'), threshold: formatUnits(threshold, 'ether'), level},
+        dedupKey: `${AlertEventType.lowWalletBalance}:${network}:${level}`,
+      })
+    }
+
+    return {balance, level}
+  }
+
   async loadLastBlocks(configDir: string): Promise<{[key: string]: number}> {
     const filePath = path.join(configDir, this.environment + '.' + this.LAST_BLOCKS_FILE_NAME)
     let lastBlocks: {[key: string]: number} = {}
@@ -646,10 +796,15 @@ export class NetworkMonitor {
     fs.writeFileSync(filePath, JSON.stringify(lastBlocks), 'utf8')
   }
 
-  disconnectBuilder(network: string, rpcEndpoint: string, subscribe: boolean): (code: number, reason: any) => void {
+  disconnectBuilder(network: string, websocket: WebSocket): (code: number, reason: any) => void {
     return (code: number, reason: any): void => {
+      // A websocket that was replaced on purpose, by a fail over or a fail back, is expected to close
+      if (this.ws[network] !== websocket) {
+        return
+      }
+
       this.structuredLog(network, `Websocket is closed. Restarting connection for ${networks[network].name}`)
-      this.ws[network].terminate()
+      websocket.terminate()
 
       this.structuredLog(
         network,
@@ -657,85 +812,214 @@ export class NetworkMonitor {
       )
 
       this.lastBlockJobDone[network] = Date.now()
-      this.walletNonces[network] = -1
-      this.failoverWebSocketProvider(network, rpcEndpoint, subscribe)
+      this.providerDisconnectedSince[network] ??= Date.now()
+      this.nonceManagers[network]?.reset()
+      this.failoverEndpoint(
+        network,
+        this.subscriptionEndpoints[network],
+        `websocket closed with ${webSocketErrorCodes[code] ?? code}`,
+      )
+      this.connectSubscriptionProvider(network, true)
     }
   }
 
   failoverWebSocketProvider(network: string, rpcEndpoint: string, subscribe: boolean): void {
     this.log('this.providers', networks[network].name)
-    this.ws[network] = new WebSocket(rpcEndpoint)
+    const websocket = new WebSocket(rpcEndpoint)
+    this.ws[network] = websocket
     keepAlive({
       debug: this.debug,
-      websocket: this.ws[network],
-      onDisconnect: this.disconnectBuilder.bind(this)(network, rpcEndpoint, true),
+      websocket,
+      onDisconnect: this.disconnectBuilder.bind(this)(network, websocket),
     })
-    this.providers[network] = new WebSocketProvider(this.ws[network])
+    this.subscriptionProviders[network] = new WebSocketProvider(websocket)
+
+    if (subscribe && this.needToSubscribe) {
+      this.networkSubscribe(network)
+    }
+  }
+
+  /**
+   * Connects the block subscription to the active subscription endpoint, replacing the previous connection
+   * The query provider follows when it shares the endpoint
+   */
+  connectSubscriptionProvider(network: string, subscribe: boolean): void {
+    const rpcEndpoint: string = this.subscriptionEndpoints[network].active.url
+    const previousWebSocket: WebSocket | undefined = this.ws[network]
+    this.subscriptionProviders[network]?.removeAllListeners('block')
+
+    if (isWebSocketUrl(rpcEndpoint)) {
+      this.failoverWebSocketProvider(network, rpcEndpoint, subscribe)
+    } else {
+      delete this.ws[network]
+      this.subscriptionProviders[network] = new JsonRpcProvider(rpcEndpoint)
+      if (subscribe && this.needToSubscribe) {
+        this.networkSubscribe(network)
+      }
+    }
+
+    if (previousWebSocket !== undefined && previousWebSocket !== this.ws[network]) {
+      previousWebSocket.terminate()
+    }
+
+    this.connectQueryProvider(network)
+  }
+
+  /**
+   * Points the query provider of the network to the active query endpoint
+   */
+  connectQueryProvider(network: string): void {
+    const rpcEndpoint: string = this.queryEndpoints[network].active.url
+    const previousProvider: JsonRpcProvider | WebSocketProvider | undefined = this.providers[network]
+    if (rpcEndpoint === this.subscriptionEndpoints[network].active.url) {
+      this.providers[network] = this.subscriptionProviders[network]
+    } else if (previousProvider === undefined || previousProvider.connection.url !== rpcEndpoint) {
+      this.providers[network] = isWebSocketUrl(rpcEndpoint)
+        ? new WebSocketProvider(rpcEndpoint)
+        : new JsonRpcProvider(rpcEndpoint)
+    }
+
+    if (this.providers[network] === previousProvider) {
+      return
+    }
+
+    if (previousProvider instanceof WebSocketProvider && previousProvider !== this.subscriptionProviders[network]) {
+      previousProvider.destroy()
+    }
+
     if (this.userWallet !== undefined) {
       this.wallets[network] = this.userWallet.connect(this.providers[network])
+      this.nonceManagers[network]?.reset()
     }
+  }
 
-    if (subscribe && this.needToSubscribe) {
-      this.networkSubscribe(network)
+  /**
+   * Records a failure of the active endpoint of the pool and moves to the next endpoint, if there is one
+   */
+  failoverEndpoint(network: string, pool: ProviderEndpointPool, error: string): boolean {
+    pool.markFailure(error)
+    const endpoint = pool.failover()
+    if (endpoint === undefined) {
+      return false
+    }
+
+    this.structuredLog(network, color.yellow(`Failing over ${pool.role} to the next RPC endpoint after: ${error}`))
+    return true
+  }
+
+  /**
+   * Counts failed queries, and fails queries over to the next endpoint after too many in a row
+   */
+  recordQueryFailure(network: string, error: any): void {
+    const pool: ProviderEndpointPool | undefined = this.queryEndpoints[network]
+    if (pool === undefined || !isProviderError(error)) {
+      return
+    }
+
+    if (pool.markFailure(error.message) >= QUERY_FAILOVER_THRESHOLD && pool.failover() !== undefined) {
+      this.structuredLog(network, color.yellow(`Failing over queries to the next RPC endpoint after: ${error.message}`))
+      this.connectQueryProvider(network)
+    }
+  }
+
+  /**
+   * Returns the network to its primary endpoints once they answer again
+   */
+  async checkFailBack(network: string): Promise<void> {
+    if (Date.now() - (this.lastFailBackCheck[network] ?? 0) < FAIL_BACK_CHECK_INTERVAL) {
+      return
+    }
+
+    this.lastFailBackCheck[network] = Date.now()
+    for (const pool of [this.queryEndpoints[network], this.subscriptionEndpoints[network]]) {
+      if (pool === undefined || !pool.canFailBack()) {
+        continue
+      }
+
+      const primaryUrl: string = pool.endpoints[0].url
+      const probe = isWebSocketUrl(primaryUrl) ? new WebSocketProvider(primaryUrl) : new JsonRpcProvider(primaryUrl)
+      try {
+        await Promise.race([
+          probe.getBlockNumber(),
+          sleep(FAIL_BACK_PROBE_TIMEOUT).then(() => {
+            throw new Error('timed out')
+          }),
+        ])
+        pool.failBack()
+        this.structuredLog(network, color.green(`Primary RPC endpoint is healthy again, failing ${pool.role} back`))
+        if (pool.role === ProviderEndpointRole.subscriptions) {
+          this.connectSubscriptionProvider(network, true)
+        } else {
+          this.connectQueryProvider(network)
+        }
+      } catch (error: any) {
+        pool.markPrimaryFailure(error.message)
+      } finally {
+        if (probe instanceof WebSocketProvider) {
+          probe.destroy()
+        }
+      }
     }
   }
 
   async initializeEthers(): Promise<void> {
     for (const network of this.networks) {
-      const rpcEndpoint = (this.configFile.networks[network as keyof ConfigNetworks] as ConfigNetwork).providerUrl
-      const protocol = new URL(rpcEndpoint).protocol
-      switch (protocol) {
-        case 'https:':
-        case 'http:':
-          this.providers[network] = new JsonRpcProvider(rpcEndpoint)
-
-          break
-        case 'wss:':
-          this.failoverWebSocketProvider.bind(this)(network, rpcEndpoint, true)
-          break
-        default:
-          throw new Error('Unsupported RPC provider protocol -> ' + protocol)
-      }
-
-      this.walletNonces[network] = -1
+      const endpoints = getProviderEndpoints(this.configFile.networks[network as keyof ConfigNetworks] as ConfigNetwork)
+      this.queryEndpoints[network] = new ProviderEndpointPool(ProviderEndpointRole.queries, endpoints)
+      this.subscriptionEndpoints[network] = new ProviderEndpointPool(ProviderEndpointRole.subscriptions, endpoints)
+      this.connectSubscriptionProvider(network, true)
+
       if (this.userWallet !== undefined) {
-        this.wallets[network] = this.userWallet.connect(this.providers[network])
-        this.walletNonces[network] = await this.getNonce({
+        this.nonceManagers[network] = new NonceManager({
           network,
-          walletAddress: await this.wallets[network].getAddress(),
+          address: await this.wallets[network].getAddress(),
+          provider: () => this.providers[network],
+          log: (message: string) => this.structuredLog(network, message),
         })
+        await this.nonceManagers[network].reconcile()
       }
 
-      if (this.replayBlockStart > 0) {
+      const replayRange: ReplayRange | undefined = this.replayRanges[network]
+      if (replayRange !== undefined) {
         this.structuredLog(network, color.red(`🚧 REPLAY MODE ACTIVATED 🚧`))
 
+        const startBlockNumber = await this.resolveReplayBound(
+          network,
+          replayRange.start,
+          BlockTimestampMatch.atOrAfter,
+        )
         const endBlockNumber =
-          this.replayBlockEnd === undefined ? await this.providers[network].getBlockNumber() : this.replayBlockEnd
+          replayRange.end === undefined
+            ? (await this.providers[network].getBlockNumber()) - this.getConfirmations(network)
+            : await this.resolveReplayBound(network, replayRange.end, BlockTimestampMatch.atOrBefore)
 
         if (this.verbose) {
           this.structuredLog(network, `Last block height [${color.green(endBlockNumber)}]`)
           this.structuredLog(
             network,
             `Starting Network Monitor in replay mode from ${color.yellow(
-              endBlockNumber - this.replayBlockStart,
-            )} blocks back at block [${color.red(this.replayBlockStart)}]`,
+              endBlockNumber - startBlockNumber,
+            )} blocks back at block [${color.red(startBlockNumber)}]`,
           )
         }
 
-        this.latestBlockHeight[network] = this.replayBlockStart
+        this.latestBlockHeight[network] = startBlockNumber
         this.blockJobs[network] = []
-        for (let n = this.replayBlockStart; n <= endBlockNumber; n++) {
+        for (let n = startBlockNumber; n <= endBlockNumber; n++) {
           this.blockJobs[network].push({
             network,
             block: n,
           })
         }
+
+        this.queuedBlockHeight[network] = endBlockNumber
       } else if (network in this.latestBlockHeight && this.latestBlockHeight[network] > 0) {
         if (this.verbose) {
           this.structuredLog(network, `Resuming Network Monitor from block height ${this.latestBlockHeight[network]}`)
         }
 
         this.currentBlockHeight[network] = this.latestBlockHeight[network]
+        this.queuedBlockHeight[network] = this.latestBlockHeight[network]
       } else {
         if (this.verbose) {
           this.structuredLog(network, `Starting Network Monitor from latest block height`)
@@ -807,7 +1091,16 @@ export class NetworkMonitor {
     }
   }
 
-  exitCallback?: () => void
+  // Can return a promise, the process only exits once it settles
+  exitCallback?: () => void | Promise<void>
+
+  // Set on shutdown, no new transactions are sent while the in-flight ones are drained
+  draining = false
+  drainTimeout: number = DEFAULT_DRAIN_TIMEOUT
+  inFlightTransactions: {[key: string]: PendingTransaction} = {}
+  pendingTransactionStore?: PendingTransactionStore
+
+  transactionReplacementCallback?: (replacement: TransactionReplacement) => void
 
   isUpdateBlockHeightUsingApiEnabled = (): boolean => {
     return Boolean(
@@ -860,12 +1153,15 @@ export class NetworkMonitor {
 
       this.debug(`\nExit code ${exitCode}`)
       if (options.exit) {
-        if (this.exitCallback !== undefined) {
-          this.exitCallback()
+        if (this.draining) {
+          // A second signal skips the drain, whatever is still in flight is persisted for the next start
+          this.log('Exiting without waiting for in-flight transactions')
+          this.persistPendingTransactions()
+          this.exitAfterCallback()
+          return
         }
 
-        // eslint-disable-next-line no-process-exit, unicorn/no-process-exit
-        process.exit()
+        this.drain().finally(() => this.exitAfterCallback())
       }
     } else if (exitCode instanceof Error) {
       // This handles the case where the exitCode is actually an Error object.
@@ -878,38 +1174,68 @@ export class NetworkMonitor {
     }
   }
 
-  monitorBuilder: (network: string) => () => void = (network: string): (() => void) => {
-    return () => {
-      this.blockJobMonitor.bind(this)(network)
+  /**
+   * Exits once the exit callback of the command is done, so that it can release what it holds before the process ends
+   */
+  async exitAfterCallback(): Promise<void> {
+    try {
+      await this.exitCallback?.()
+    } finally {
+      // eslint-disable-next-line no-process-exit, unicorn/no-process-exit
+      process.exit()
     }
   }
 
-  restartProvider = async (network: string): Promise<void> => {
-    const networkConfig = this.configFile.networks[network as keyof ConfigNetworks] as ConfigNetwork
-    const rpcEndpoint = networkConfig.providerUrl
-    const protocol = new URL(rpcEndpoint).protocol
+  /**
+   * Stops sending transactions and waits, up to the drain timeout, for the in-flight ones to confirm
+   * Transactions that are still unconfirmed afterwards are persisted with their nonces
+   */
+  async drain(): Promise<void> {
+    this.draining = true
+    const deadline: number = Date.now() + this.drainTimeout
+    let inFlight: number = Object.keys(this.inFlightTransactions).length
+    while (inFlight > 0 && Date.now() < deadline) {
+      this.log(`⏳ Waiting for ${inFlight} in-flight transactions to confirm before exiting`)
+      await sleep(1000)
+      inFlight = Object.keys(this.inFlightTransactions).length
+    }
 
-    switch (protocol) {
-      case 'http:': // fallthrough for http and https
-      case 'https:':
-        this.providers[network] = new JsonRpcProvider(rpcEndpoint)
+    this.persistPendingTransactions()
+  }
 
-        break
-      case 'wss:':
-        this.ws[network]?.close(1012, 'Block Job Handler has been inactive longer than threshold time.')
+  persistPendingTransactions(): void {
+    const pendingTransactions: PendingTransaction[] = Object.values(this.inFlightTransactions)
+    if (this.pendingTransactionStore === undefined) {
+      return
+    }
 
-        break
-      default:
-        throw new Error('Unsupported RPC provider protocol -> ' + protocol)
+    try {
+      this.pendingTransactionStore.write(pendingTransactions)
+      if (pendingTransactions.length > 0) {
+        this.log(
+          `💾 Saved ${pendingTransactions.length} unconfirmed transactions to ${this.pendingTransactionStore.filePath}`,
+        )
+      }
+    } catch (error: any) {
+      this.log(`Failed to save unconfirmed transactions: ${error.message}`)
     }
+  }
 
-    if (this.userWallet) {
-      this.wallets[network] = this.userWallet.connect(this.providers[network])
-      this.walletNonces[network] = await this.getNonce({
-        network,
-        walletAddress: await this.wallets[network].getAddress(),
-      })
+  monitorBuilder: (network: string) => () => void = (network: string): (() => void) => {
+    return () => {
+      this.blockJobMonitor.bind(this)(network)
     }
+  }
+
+  restartProvider = async (network: string): Promise<void> => {
+    // A stalled subscription moves to the next endpoint, or reconnects to the same one when there is no other
+    this.failoverEndpoint(
+      network,
+      this.subscriptionEndpoints[network],
+      'Block Job Handler has been inactive longer than threshold time',
+    )
+    this.connectSubscriptionProvider(network, true)
+    this.nonceManagers[network]?.reset()
 
     // apply this logic to catch a potential processBlock failing and being dropped during a provider restart cycle
     // allow for up to 3 provider restarts to occur before triggering this
@@ -919,7 +1245,10 @@ export class NetworkMonitor {
   }
 
   async blockJobMonitor(network: string): Promise<void> {
+    this.checkAlertThresholds(network)
+    await this.checkFailBack(network)
     if (Date.now() - this.lastBlockJobDone[network] > TIMEOUT_THRESHOLD) {
+      this.providerDisconnectedSince[network] ??= this.lastBlockJobDone[network]
       this.structuredLog(
         network,
         color.yellow('Block Job Handler has been inactive longer than threshold time. Restarting.'),
@@ -930,6 +1259,43 @@ export class NetworkMonitor {
     }
   }
 
+  /**
+   * Raises the alerts of a provider that stays disconnected and of block processing falling behind the network
+   */
+  checkAlertThresholds(network: string): void {
+    const alerting = Alerting.Instance
+    if (!alerting.enabled) {
+      return
+    }
+
+    const disconnectedSince: number | undefined = this.providerDisconnectedSince[network]
+    if (disconnectedSince !== undefined) {
+      const seconds = Math.round((Date.now() - disconnectedSince) / 1000)
+      if (seconds > alerting.providerDisconnectedSeconds) {
+        alerting.emit({
+          type: AlertEventType.providerDisconnected,
+          severity: AlertSeverity.critical,
+          network,
+          message: `Provider for ${network} has been disconnected for ${seconds} seconds`,
+          details: {seconds},
+          dedupKey: `${AlertEventType.providerDisconnected}:${network}`,
+        })
+      }
+    }
+
+    const lag = this.currentBlockHeight[network] - this.getConfirmations(network) - this.latestBlockHeight[network]
+    if (this.latestBlockHeight[network] > 0 && lag > alerting.blockLag) {
+      alerting.emit({
+        type: AlertEventType.blockLag,
+        severity: AlertSeverity.warning,
+        network,
+        message: `Block processing for ${network} is ${lag} blocks behind`,
+        details: {lag, currentBlock: this.currentBlockHeight[network], processedBlock: this.latestBlockHeight[network]},
+        dedupKey: `${AlertEventType.blockLag}:${network}`,
+      })
+    }
+  }
+
   jobHandlerBuilder: (network: string) => () => void = (network: string): (() => void) => {
     return () => {
       this.blockJobHandler(network)
@@ -965,6 +1331,7 @@ export class NetworkMonitor {
     const now = Date.now()
     this.lastBlockJobDone[network] = now
     this.lastProcessBlockDone[network] = now
+    delete this.providerDisconnectedSince[network]
 
     if (this.blockJobs[network].length > 0) {
       if (network in this.processBlocksByRange && this.processBlocksByRange[network]) {
@@ -995,6 +1362,8 @@ export class NetworkMonitor {
       setTimeout(this.jobHandlerBuilder.bind(this)(network), 1000)
     } else if (this.blockJobMonitorProcess[network]) {
       this.structuredLog(network, 'All jobs done for network')
+      // A network that finished its replay stops taking new blocks, while the other networks finish theirs
+      this.subscriptionProviders[network]?.removeAllListeners('block')
       clearInterval(this.blockJobMonitorProcess[network])
       delete this.blockJobMonitorProcess[network]
       this.runningProcesses -= 1
@@ -1500,6 +1869,7 @@ export class NetworkMonitor {
   async processBlock(job: BlockJob): Promise<void> {
     const interestingLogs: InterestingLog[] = [] // NOTICE: process block V1
     const interestingTransactions: InterestingTransaction[] = [] // NOTICE: process block V2
+    let reorged = false
 
     this.activated[job.network] = true
     this.structuredLogVerbose(job.network, `Getting block 🔍`, job.block)
@@ -1514,11 +1884,20 @@ export class NetworkMonitor {
 
       // If the block and transactions exist, process further
       if (block && 'transactions' in block) {
-        const isRecentBlock = this.currentBlockHeight[job.network] - job.block < 5
+        // The block is not processed when it does not build on the blocks processed before it
+        reorged = await this.checkChainReorg(job.network, job.block, block.parentHash)
+        if (reorged) {
+          return
+        }
+
+        this.getBlockHistory(job.network).record({number: block.number, hash: block.hash, parentHash: block.parentHash})
+        // Blocks trail the head by the confirmations of the network, recent is measured from the last confirmed block
+        const isRecentBlock = this.currentBlockHeight[job.network] - this.getConfirmations(job.network) - job.block < 5
 
-        // If the block is a recent one, update the gas pricing info
+        // If the block is a recent one, update the gas pricing info and the block time
         if (isRecentBlock) {
           this.gasPrices[job.network] = updateGasPricing(job.network, block, this.gasPrices[job.network])
+          this.recordBlockTime(job.network, block.number, block.timestamp)
         }
 
         // Check bloom logs and fetch logs if present
@@ -1578,8 +1957,9 @@ export class NetworkMonitor {
       this.structuredLogError(job.network, `Error processing block ${error}`, job.block)
     } finally {
       // Regardless of whether the processing succeeded or failed, handle the job
+      // After a reorg the job stays queued behind the re-processed blocks
       try {
-        await this.blockJobHandler(job.network, job)
+        await this.blockJobHandler(job.network, reorged ? undefined : job)
       } catch (error: any) {
         // Log any error in handling the job
         if (job) {
@@ -1615,7 +1995,13 @@ export class NetworkMonitor {
       this.activated[network] = true
       this.structuredLogVerbose(network, `Getting block range 🔍`, [jobs[0].block, jobs[jobs.length - 1].block])
 
+      let reorged = false
       try {
+        reorged = await this.checkChainReorg(network, jobs[0].block)
+        if (reorged) {
+          return
+        }
+
         let logs = await this.getLogs({
           network,
           fromBlock: jobs[0].block,
@@ -1677,11 +2063,14 @@ export class NetworkMonitor {
         })
         // If the block and transactions exist, process further
         if (block && 'transactions' in block) {
-          const isRecentBlock = this.currentBlockHeight[job.network] - job.block < this.blockRangeLimit
+          this.getBlockHistory(network).record({number: block.number, hash: block.hash, parentHash: block.parentHash})
+          const isRecentBlock =
+            this.currentBlockHeight[job.network] - this.getConfirmations(job.network) - job.block < this.blockRangeLimit
 
-          // If the block is a recent one, update the gas pricing info
+          // If the block is a recent one, update the gas pricing info and the block time
           if (isRecentBlock) {
             this.gasPrices[job.network] = updateGasPricing(job.network, block, this.gasPrices[job.network])
+            this.recordBlockTime(job.network, block.number, block.timestamp)
           }
         }
       } catch (error: any) {
@@ -1693,7 +2082,7 @@ export class NetworkMonitor {
       } finally {
         // Regardless of whether the processing succeeded or failed, handle the job
         try {
-          await this.blockJobHandler(network, jobs[jobs.length - 1])
+          await this.blockJobHandler(network, reorged ? undefined : jobs[jobs.length - 1])
         } catch (error: any) {
           // Log any error in handling the job
           if (jobs && jobs[0]) {
@@ -1706,21 +2095,149 @@ export class NetworkMonitor {
     }
   }
 
+  getBlockHistory(network: string): BlockHistory {
+    if (!this.blockHistory[network]) {
+      const networkConfig = this.configFile.networks[network as keyof ConfigNetworks] as ConfigNetwork | undefined
+      this.blockHistory[network] = new BlockHistory(networkConfig?.reorgDepth ?? DEFAULT_REORG_DEPTH)
+    }
+
+    return this.blockHistory[network]
+  }
+
+  /**
+   * Checks that a block builds on the blocks processed before it, and queues the orphaned blocks when it does not
+   * The parent hash is only known when the previous block is the one right before, otherwise the previous block
+   * is fetched again to compare its hash. Returns true when a reorg was found.
+   */
+  async checkChainReorg(network: string, blockNumber: number, parentHash?: string): Promise<boolean> {
+    const history = this.getBlockHistory(network)
+    const recorded: BlockHistoryEntry[] = history.before(blockNumber)
+    if (recorded.length === 0) {
+      return false
+    }
+
+    const previous: BlockHistoryEntry = recorded[0]
+    const canonicalHash: string | undefined =
+      parentHash !== undefined && previous.number === blockNumber - 1
+        ? parentHash
+        : (await this.getBlock({network, blockNumber: previous.number, attempts: 10}))?.hash
+    if (canonicalHash === undefined || canonicalHash === previous.hash) {
+      return false
+    }
+
+    const orphanedBlocks: {number: number; hash: string}[] = [{number: previous.number, hash: previous.hash}]
+    let commonAncestor: number | undefined
+    for (const entry of recorded.slice(1)) {
+      const block = await this.getBlock({network, blockNumber: entry.number, attempts: 10})
+      if (block?.hash === entry.hash) {
+        commonAncestor = entry.number
+        break
+      }
+
+      orphanedBlocks.push({number: entry.number, hash: entry.hash})
+    }
+
+    if (commonAncestor === undefined) {
+      // The reorg goes deeper than the blocks kept, everything from the oldest one kept is re-processed
+      commonAncestor = recorded[recorded.length - 1].number - 1
+      this.structuredLog(
+        network,
+        color.red(
+          `Chain reorg is deeper than the ${history.depth} blocks kept, blocks before ${commonAncestor} are not checked`,
+        ),
+      )
+    }
+
+    await this.handleChainReorg({
+      network,
+      commonAncestor,
+      fromBlock: commonAncestor + 1,
+      toBlock: blockNumber - 1,
+      orphanedBlocks: orphanedBlocks.reverse(),
+    })
+    return true
+  }
+
+  /**
+   * Rolls block processing back to the common ancestor of a reorg, and queues the blocks after it to be re-processed
+   */
+  async handleChainReorg(reorg: ChainReorg): Promise<void> {
+    const {network, commonAncestor, fromBlock, toBlock, orphanedBlocks} = reorg
+    this.structuredLog(
+      network,
+      color.yellow(
+        `Chain reorg detected, ${orphanedBlocks.length} processed blocks were orphaned. Re-processing blocks ${fromBlock} to ${toBlock}`,
+      ),
+      [fromBlock, toBlock],
+    )
+    metrics.chainReorgs().inc({network})
+    Alerting.Instance.emit({
+      type: AlertEventType.chainReorg,
+      severity: AlertSeverity.warning,
+      network,
+      message: `Chain reorg on ${network}, re-processing blocks ${fromBlock} to ${toBlock}`,
+      details: {commonAncestor, fromBlock, toBlock, orphanedBlocks: orphanedBlocks.length},
+    })
+
+    this.getBlockHistory(network).removeFrom(fromBlock)
+    if (this.processReorg) {
+      try {
+        await this.processReorg(reorg)
+      } catch (error: any) {
+        this.structuredLogError(network, `Error handling chain reorg: ${error.message}`, [fromBlock, toBlock])
+      }
+    }
+
+    const reprocessJobs: BlockJob[] = []
+    for (let block = fromBlock; block <= toBlock; block++) {
+      reprocessJobs.push({network, block})
+    }
+
+    this.blockJobs[network].unshift(...reprocessJobs)
+    this.latestBlockHeight[network] = commonAncestor
+  }
+
+  getBlockTimestampResolver(network: string): BlockTimestampResolver {
+    if (!this.blockTimestampResolvers[network]) {
+      this.blockTimestampResolvers[network] = new BlockTimestampResolver({
+        getBlockNumber: () => this.providers[network].getBlockNumber(),
+        getBlockTimestamp: async (blockNumber: number): Promise<number> => {
+          const block = await this.getBlock({network, blockNumber, attempts: 10})
+          if (block === null) {
+            throw new Error(`Could not get block ${blockNumber}`)
+          }
+
+          return block.timestamp
+        },
+      })
+    }
+
+    return this.blockTimestampResolvers[network]
+  }
+
+  /**
+   * Returns the block of the network that matches the date, the first one at or after it or the last one at or before it
+   */
+  async findBlockByTimestamp(network: string, date: Date, match: BlockTimestampMatch): Promise<number> {
+    const blockNumber = await this.getBlockTimestampResolver(network).findBlock(date, match)
+    this.structuredLog(network, `Resolved ${date.toISOString()} to block [${blockNumber}]`)
+    return blockNumber
+  }
+
+  async resolveReplayBound(network: string, bound: ReplayBound, match: BlockTimestampMatch): Promise<number> {
+    return typeof bound === 'number' ? bound : this.findBlockByTimestamp(network, bound, match)
+  }
+
+  getConfirmations(network: string): number {
+    const networkConfig = this.configFile.networks[network as keyof ConfigNetworks] as ConfigNetwork | undefined
+    return networkConfig?.confirmations ?? 0
+  }
+
   networkSubscribe(network: string): void {
-    this.providers[network].on('block', (blockNumber: string) => {
+    this.subscriptionProviders[network].on('block', (blockNumber: string) => {
       const block = Number.parseInt(blockNumber, 10)
       if (this.currentBlockHeight[network] !== 0 && block - this.currentBlockHeight[network] > 1) {
         this.structuredLogVerbose(network, `Resuming previously dropped connection, gotta do some catching up`, block)
-
-        let latest = this.currentBlockHeight[network]
-        // If the current network's block number is ahead of the network monitor's latest block, add the blocks to the queue
-        while (block - latest > 0) {
-          this.blockJobs[network].push({
-            network: network,
-            block: latest,
-          })
-          latest++
-        }
       }
 
       this.currentBlockHeight[network] = block
@@ -1728,13 +2245,39 @@ export class NetworkMonitor {
         this.structuredLog(network, color.green(`A new block has been mined. New block height is [${block}] ⛏`))
       }
 
-      this.blockJobs[network].push({
-        network: network,
-        block: block,
-      } as BlockJob)
+      const confirmations = this.getConfirmations(network)
+      if (confirmations > 0 && this.processHead) {
+        this.handleHeadBlock(network, block)
+      }
+
+      this.queueConfirmedBlocks(network, block - confirmations)
     })
   }
 
+  /**
+   * Adds the blocks up to the confirmed block to the queue, starting after the last block queued
+   * Blocks missed while the connection was dropped are caught up on the way
+   */
+  queueConfirmedBlocks(network: string, confirmedBlock: number): void {
+    const queuedBlock: number | undefined = this.queuedBlockHeight[network]
+    const fromBlock = queuedBlock === undefined ? confirmedBlock : queuedBlock + 1
+    for (let block = fromBlock; block <= confirmedBlock; block++) {
+      this.blockJobs[network].push({network, block})
+    }
+
+    if (fromBlock <= confirmedBlock) {
+      this.queuedBlockHeight[network] = confirmedBlock
+    }
+  }
+
+  async handleHeadBlock(network: string, block: number): Promise<void> {
+    try {
+      await this.processHead!(network, block)
+    } catch (error: any) {
+      this.structuredLogError(network, `Error processing unconfirmed block: ${error.message}`, block)
+    }
+  }
+
   structuredLog(network: string | undefined, msg: string, tagId?: string | number | (number | string)[]): void {
     const timestamp = new Date(Date.now()).toISOString()
     const timestampColor = color.keyword('green')
@@ -1779,6 +2322,13 @@ export class NetworkMonitor {
         'error',
       )}]${cleanTags(tagId)} ${errorMessage}`,
     )
+    Alerting.Instance.emit({
+      type: AlertEventType.error,
+      severity: AlertSeverity.warning,
+      network,
+      message: errorMessage,
+      details: tagId === undefined ? undefined : {tags: cleanTags(tagId).trim()},
+    })
   }
 
   structuredLogVerbose(network: string, message: string, block: number | number[]): void {
@@ -1864,6 +2414,22 @@ export class NetworkMonitor {
     }
   }
 
+  /**
+   * Updates the measured block time of a network with a processed block
+   * Uses a moving average, so that a single slow block does not skew the estimate
+   */
+  recordBlockTime(network: string, blockNumber: number, timestamp: number): void {
+    const previous = this.lastBlockSample[network]
+    this.lastBlockSample[network] = {number: blockNumber, timestamp}
+    if (previous === undefined || blockNumber <= previous.number) {
+      return
+    }
+
+    const blockTime: number = (timestamp - previous.timestamp) / (blockNumber - previous.number)
+    const average: number | undefined = this.blockTimes[network]
+    this.blockTimes[network] = average === undefined ? blockTime : average * 0.9 + blockTime * 0.1
+  }
+
   async getBlock({
     blockNumber,
     network,
@@ -1959,6 +2525,9 @@ export class NetworkMonitor {
 
     try {
       const result = await this.retry(network, getBalanceAttempt, attempts, interval)
+      metrics
+        .walletBalance()
+        .set({network, address: walletAddress.toLowerCase()}, Number(formatUnits(result!, 'ether')))
       return result as BigNumber
     } catch (error: any) {
       this.structuredLog(network, `Failed getting ${walletAddress} balance`, tags)
@@ -2143,6 +2712,7 @@ export class NetworkMonitor {
     gasPrice,
     gasLimit,
     value = ZERO,
+    nonce,
     tags = [] as (string | number)[],
     attempts = 10,
     interval = 1000,
@@ -2152,6 +2722,7 @@ export class NetworkMonitor {
         gasPrice,
         gasLimit,
         value,
+        nonce,
         from: this.wallets[network].address,
       })
 
@@ -2181,19 +2752,17 @@ export class NetworkMonitor {
     value = ZERO,
     attempts = 10,
     interval = 500,
-    waitForReceipt = false,
+    jobHash,
   }: ExecuteTransactionParams): Promise<TransactionReceipt | null> {
     const tag: string = this.randomTag()
     tags.push(tag)
-    this.structuredLog(network, `Executing contract function ${methodName}`, tags)
-
-    if (this.walletNonces[network] < 0) {
-      this.walletNonces[network] = await this.getNonce({
-        network,
-        walletAddress: await this.wallets[network].getAddress(),
-      })
+    if (this.draining) {
+      this.structuredLog(network, `Shutting down, contract function ${methodName} will not be executed`, tags)
+      return null
     }
 
+    this.structuredLog(network, `Executing contract function ${methodName}`, tags)
+
     contract = contract.connect(this.wallets[network])
     if (gasPrice === undefined) {
       this.structuredLog(network, `About to get gas price from internal gas price functions`, tags)
@@ -2256,61 +2825,103 @@ export class NetworkMonitor {
       return null
     }
 
-    const rawTx: PopulatedTransaction | null = await this.populateTransaction({
-      network,
-      contract,
-      methodName,
-      args,
-      gasPrice,
-      gasLimit,
-      value,
-      nonce: this.walletNonces[network],
-      tags,
-      attempts,
-
-      interval,
-    })
-    if (rawTx === null) {
-      // populating tx failed
-      this.structuredLog(network, `Failed to populate transaction ${methodName} ${JSON.stringify(args)}`, tags)
+    // Shutdown may have started while the transaction was prepared, a transaction sent now would not be persisted
+    if (this.draining) {
+      this.structuredLog(network, `Shutting down, contract function ${methodName} will not be executed`, tags)
       return null
     }
 
-    // reset time to allow for proper transaction submission
-    this.lastBlockJobDone[network] = Date.now()
-    const tx: TransactionResponse | null = await this.sendTransaction({
-      network,
-      tags,
-      rawTx,
-      attempts,
-      interval,
-    })
+    const nonceManager: NonceManager = this.nonceManagers[network]
+    const nonce: number = await nonceManager.reserve()
+    let tx: TransactionResponse | null = null
+    try {
+      const rawTx: PopulatedTransaction | null = await this.populateTransaction({
+        network,
+        contract,
+        methodName,
+        args,
+        gasPrice,
+        gasLimit,
+        value,
+        nonce,
+        tags,
+        attempts,
+
+        interval,
+      })
+      if (rawTx === null) {
+        // populating tx failed
+        this.structuredLog(network, `Failed to populate transaction ${methodName} ${JSON.stringify(args)}`, tags)
+        nonceManager.release(nonce)
+        return null
+      }
+
+      if (this.draining) {
+        this.structuredLog(network, `Shutting down, contract function ${methodName} will not be sent`, tags)
+        nonceManager.release(nonce)
+        return null
+      }
+
+      // reset time to allow for proper transaction submission
+      this.lastBlockJobDone[network] = Date.now()
+      tx = await this.sendTransaction({
+        network,
+        tags,
+        rawTx,
+        attempts,
+        interval,
+      })
+    } catch (error: any) {
+      nonceManager.release(nonce)
+      if (/nonce/i.test(error.message)) {
+        // The node disagrees with the local nonce state, reconcile before the next reservation
+        nonceManager.reset()
+      }
+
+      throw error
+    }
+
     if (tx === null) {
       // sending tx failed
       this.structuredLog(network, `Failed to send transaction ${methodName} ${JSON.stringify(args)}`, tags)
+      nonceManager.release(nonce)
       return null
     }
 
+    nonceManager.confirm(nonce)
+
     // reset time to allow for proper transaction confirmation
     this.lastBlockJobDone[network] = Date.now()
-    this.structuredLog(network, `Transaction ${tx.hash} has been submitted`, tags)
-    const receipt: TransactionReceipt | null = await this.getTransactionReceipt({
-      network,
-      transactionHash: tx.hash,
-      attempts,
-    })
-    if (receipt === null) {
-      if (!waitForReceipt) {
-        this.walletNonces[network]++
-      }
+    this.structuredLog(network, `Transaction ${tx.hash} has been submitted with nonce ${nonce}`, tags)
+    const inFlightKey = `${network}:${nonce}`
+    this.inFlightTransactions[inFlightKey] = {network, nonce, hashes: [tx.hash], jobHash, submittedAt: Date.now()}
+    let receipt: TransactionReceipt | null
+    try {
+      receipt = await this.waitForTransaction({
+        network,
+        transaction: tx,
+        jobHash,
+        tags,
+        attempts,
+        interval,
+      })
+    } finally {
+      delete this.inFlightTransactions[inFlightKey]
+    }
 
+    if (receipt !== null && receipt.to?.toLowerCase() === walletAddress.toLowerCase()) {
+      // The transaction was replaced by a cancellation, the nonce is used but the call was never made
+      this.structuredLog(network, `Transaction was cancelled by ${receipt.transactionHash}`, tags)
+      receipt = null
+    } else if (receipt === null) {
       this.structuredLog(
         network,
         `Transaction ${networks[network].explorer}/tx/${tx.hash} could not be confirmed`,
         tags,
       )
+      // A transaction that was dropped from the mempool leaves a gap that has to be filled
+      await nonceManager.reconcile()
     } else {
-      this.walletNonces[network]++
       this.structuredLog(
         network,
         `Transaction ${networks[network].explorer}/tx/${receipt.transactionHash} mined and confirmed`,
@@ -2321,6 +2932,175 @@ export class NetworkMonitor {
     return receipt
   }
 
+  getStuckTransactionSettings(network: string): {
+    blocks: number
+    bumpPercent: number
+    maxGasPrice?: BigNumber
+    cancel: boolean
+  } {
+    const networkConfig = this.configFile.networks[network as keyof ConfigNetworks] as ConfigNetwork | undefined
+    const settings = networkConfig?.stuckTransaction ?? {}
+    return {
+      blocks: settings.blocks ?? STUCK_TRANSACTION_BLOCKS,
+      bumpPercent: settings.bumpPercent ?? STUCK_TRANSACTION_BUMP_PERCENT,
+      maxGasPrice: settings.maxGasPrice === undefined ? undefined : parseUnits(settings.maxGasPrice, 'gwei'),
+      cancel: settings.cancel ?? true,
+    }
+  }
+
+  /**
+   * Waits for a transaction, or any of its replacements, to be mined
+   * A transaction that stays pending for the configured number of blocks is sped up with a bumped gas price.
+   * Once the next bump would go over the network cap (twice the original gas price when none is configured),
+   * the transaction is cancelled with a zero-value self-send. The cancellation only spends 21000 gas, so it is
+   * allowed to go over the cap.
+   */
+  async waitForTransaction({
+    network,
+    transaction,
+    jobHash,
+    tags = [] as (string | number)[],
+    attempts = 10,
+    interval = 2000,
+  }: WaitForTransactionParams): Promise<TransactionReceipt | null> {
+    const provider = this.providers[network]
+    const settings = this.getStuckTransactionSettings(network)
+    const originalGasPrice: BigNumber = BigNumber.from(transaction.maxFeePerGas ?? transaction.gasPrice ?? 0)
+    const maxGasPrice: BigNumber = settings.maxGasPrice ?? originalGasPrice.mul(TWO)
+    const transactionHashes: string[] = [transaction.hash]
+    let pendingTransaction: TransactionResponse = transaction
+    let cancelled = false
+    let submittedBlock: number | null = null
+
+    for (let i = 0; i < attempts; i++) {
+      try {
+        for (const transactionHash of transactionHashes) {
+          const receipt: TransactionReceipt | null = await provider.getTransactionReceipt(transactionHash)
+          if (receipt !== null) {
+            return receipt
+          }
+        }
+
+        const blockNumber: number = await provider.getBlockNumber()
+        submittedBlock = submittedBlock ?? blockNumber
+        if (!cancelled && blockNumber - submittedBlock >= settings.blocks) {
+          const gasPricing: GasPricing = this.gasPrices[network]
+          const networkGasPrice: BigNumber = BigNumber.from(
+            (gasPricing.isEip1559 ? gasPricing.nextBlockFee : gasPricing.gasPrice) ?? 0,
+          )
+          const pendingGasPrice = BigNumber.from(pendingTransaction.maxFeePerGas ?? pendingTransaction.gasPrice ?? 0)
+          let gasPrice: BigNumber = pendingGasPrice.mul(100 + settings.bumpPercent).div(100)
+          gasPrice = gasPrice.gt(networkGasPrice) ? gasPrice : networkGasPrice
+
+          const type: TransactionReplacementType = gasPrice.gt(maxGasPrice)
+            ? TransactionReplacementType.cancel
+            : TransactionReplacementType.speedUp
+          submittedBlock = blockNumber
+          if (type === TransactionReplacementType.cancel && !settings.cancel) {
+            this.structuredLog(
+              network,
+              `Transaction ${pendingTransaction.hash} is stuck and the gas price cap of ${formatUnits(
+                maxGasPrice,
+                'gwei',
+              )} GWEI is reached`,
+              tags,
+            )
+          } else {
+            const replacement: TransactionResponse | null = await this.replaceTransaction({
+              network,
+              transaction: pendingTransaction,
+              type,
+              gasPrice,
+              jobHash,
+              tags,
+            })
+            if (replacement !== null) {
+              transactionHashes.push(replacement.hash)
+              this.inFlightTransactions[`${network}:${transaction.nonce}`]?.hashes.push(replacement.hash)
+              pendingTransaction = replacement
+              cancelled = type === TransactionReplacementType.cancel
+            }
+          }
+        }
+      } catch (error: any) {
+        this.structuredLogError(
+          network,
+          `Failed checking transaction ${pendingTransaction.hash}: ${error.message}`,
+          tags,
+        )
+      }
+
+      await sleep(interval)
+    }
+
+    return null
+  }
+
+  /**
+   * Sends a transaction with the same nonce as the given one, at a higher gas price
+   * A speed up resends the same call, a cancel sends zero value to the wallet itself
+   * Every attempt is logged and reported to the transactionReplacementCallback, whether it was accepted or not
+   */
+  async replaceTransaction({
+    network,
+    transaction,
+    type,
+    gasPrice,
+    jobHash,
+    tags = [] as (string | number)[],
+  }: ReplaceTransactionParams): Promise<TransactionResponse | null> {
+    const wallet = this.wallets[network]
+    const rawTx: PopulatedTransaction =
+      type === TransactionReplacementType.cancel
+        ? {to: wallet.address, value: ZERO}
+        : {to: transaction.to, data: transaction.data, value: transaction.value, gasLimit: transaction.gasLimit}
+    rawTx.nonce = transaction.nonce
+    rawTx.chainId = transaction.chainId
+    if (transaction.type === 2) {
+      rawTx.type = 2
+      rawTx.maxPriorityFeePerGas = gasPrice
+      rawTx.maxFeePerGas = gasPrice
+    } else {
+      rawTx.gasPrice = gasPrice
+    }
+
+    const replacement: TransactionReplacement = {
+      network,
+      jobHash,
+      tags,
+      type,
+      nonce: transaction.nonce,
+      replacedHash: transaction.hash,
+      gasPrice: gasPrice.toString(),
+      timestamp: Date.now(),
+    }
+    let tx: TransactionResponse | null = null
+    try {
+      const populatedTx = await wallet.populateTransaction(rawTx)
+      const signedTx = await wallet.signTransaction(populatedTx)
+      tx = await this.providers[network].sendTransaction(signedTx)
+      replacement.replacementHash = tx.hash
+      this.structuredLog(
+        network,
+        `Replaced stuck transaction ${transaction.hash} with ${type} ${tx.hash} at ${formatUnits(
+          gasPrice,
+          'gwei',
+        )} GWEI`,
+        tags,
+      )
+    } catch (error: any) {
+      replacement.error = error.message
+      this.structuredLogError(
+        network,
+        `Failed to ${type} stuck transaction ${transaction.hash}: ${error.message}`,
+        tags,
+      )
+    }
+
+    this.transactionReplacementCallback?.(replacement)
+    return tx
+  }
+
   /**
    * Retries a function multiple times if it fails.
    * @param network - The network name.
@@ -2332,11 +3112,14 @@ export class NetworkMonitor {
     for (let i = 0; i < attempts; i++) {
       try {
         const result = await func()
+        this.queryEndpoints[network]?.markSuccess()
         if (result !== null) {
           return result
         }
       } catch (error: any) {
         this.structuredLogError(network, `Attempt ${i + 1} failed: ${error.message}`)
+        this.recordQueryFailure(network, error)
+        metrics.rpcErrors().inc({network, method: func.name.replace(/Attempt$/, '') || 'anonymous'})
 
         if (i === attempts - 1) {
           // If this was the last attempt, throw the error.
@@ -0,0 +1,150 @@
+import {Provider} from '@ethersproject/abstract-provider'
+
+export type NonceReconciliation = {
+  latest: number
+  pending: number
+  next: number
+  gaps: number[]
+}
+
+type NonceManagerOptions = {
+  network: string
+  address: string
+  provider: () => Provider
+  log?: (message: string) => void
+}
+
+/**
+ * NonceManager
+ * Description: Hands out the nonces of a single wallet on a single network.
+ * Reservations are serialized, so concurrent senders never get the same nonce. A reservation is either confirmed,
+ * once the transaction is accepted by the node, or released when sending fails. Released nonces that sit below the
+ * next nonce are gaps, they are handed out again before any new nonce so that later transactions are not blocked.
+ */
+export class NonceManager {
+  readonly network: string
+  readonly address: string
+  private provider: () => Provider
+  private log?: (message: string) => void
+  private nextNonce: number | null = null
+  private reserved: Set<number> = new Set()
+  private released: number[] = []
+  private lock: Promise<void> = Promise.resolve()
+
+  constructor({network, address, provider, log}: NonceManagerOptions) {
+    this.network = network
+    this.address = address
+    this.provider = provider
+    this.log = log
+  }
+
+  get reservations(): number[] {
+    return [...this.reserved].sort((a, b) => a - b)
+  }
+
+  /**
+   * Reserves the next nonce to use, reconciling with the RPC first when the local state was reset
+   */
+  async reserve(): Promise<number> {
+    return this.withLock(async () => {
+      if (this.nextNonce === null) {
+        await this.sync()
+      }
+
+      const nonce: number = this.released.length > 0 ? this.released.shift()! : this.nextNonce!++
+      this.reserved.add(nonce)
+      this.log?.(`Reserved nonce ${nonce} for ${this.address}`)
+      return nonce
+    })
+  }
+
+  /**
+   * Marks a reserved nonce as used, once its transaction was accepted by the node
+   */
+  confirm(nonce: number): void {
+    this.reserved.delete(nonce)
+  }
+
+  /**
+   * Gives a reserved nonce back, after its transaction failed to be sent
+   */
+  release(nonce: number): void {
+    if (!this.reserved.delete(nonce)) {
+      return
+    }
+
+    if (this.nextNonce !== null && nonce === this.nextNonce - 1 && this.released.length === 0) {
+      this.nextNonce--
+    } else {
+      this.released = [...this.released, nonce].sort((a, b) => a - b)
+      this.log?.(`Nonce ${nonce} for ${this.address} was released and left a gap, it will be reused`)
+    }
+  }
+
+  /**
+   * Forgets the local nonce state, the next reservation reconciles with the RPC
+   * Used when the provider reconnects or the node rejects a nonce
+   */
+  reset(): void {
+    this.nextNonce = null
+    this.released = []
+  }
+
+  /**
+   * Compares the local state with the latest and pending transaction counts of the wallet
+   */
+  async reconcile(): Promise<NonceReconciliation> {
+    return this.withLock(async () => this.sync())
+  }
+
+  private async sync(): Promise<NonceReconciliation> {
+    const provider = this.provider()
+    const latest: number = await provider.getTransactionCount(this.address, 'latest')
+    const pending: number = await provider.getTransactionCount(this.address, 'pending')
+    const gaps: number[] = []
+
+    for (const nonce of this.reserved) {
+      if (nonce < latest) {
+        this.reserved.delete(nonce)
+      }
+    }
+
+    // Reserved nonces are handed out but may not be broadcast yet, the node can not count them after a reset
+    const afterReserved: number = this.reserved.size > 0 ? Math.max(...this.reserved) + 1 : 0
+    this.nextNonce = Math.max(this.nextNonce ?? 0, pending, afterReserved)
+    // Nonces handed out locally that the node does not know about, and that are not being sent right now
+    for (let nonce = pending; nonce < this.nextNonce; nonce++) {
+      if (!this.reserved.has(nonce)) {
+        gaps.push(nonce)
+      }
+    }
+
+    this.released = [...new Set([...this.released.filter(nonce => nonce >= pending), ...gaps])]
+      .filter(nonce => !this.reserved.has(nonce))
+      .sort((a, b) => a - b)
+
+    if (gaps.length > 0) {
+      this.log?.(`Detected nonce gaps ${gaps.join(', ')} for ${this.address}, they will be filled first`)
+    }
+
+    if (pending > latest) {
+      this.log?.(`${pending - latest} transactions from ${this.address} are pending`)
+    }
+
+    return {latest, pending, next: this.nextNonce, gaps}
+  }
+
+  private async withLock<T>(func: () => Promise<T>): Promise<T> {
+    const previous = this.lock
+    let unlock!: () => void
+    this.lock = new Promise<void>(resolve => {
+      unlock = resolve
+    })
+    await previous
+    try {
+      return await func()
+    } finally {
+      unlock()
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import * as fs from 'fs-extra'
+import * as path from 'node:path'
+
+import {BigNumber} from '@ethersproject/bignumber'
+
+import {OperatorJob} from './operator-job'
+import {TransactionReplacement} from '../types/network-monitor'
+
+export enum OperatorJobJournalEntryType {
+  added = 'added',
+  executed = 'executed',
+  failed = 'failed',
+  removed = 'removed',
+  replaced = 'replaced',
+  deadLettered = 'deadLettered',
+}
+
+export interface OperatorJobJournalEntry {
+  type: OperatorJobJournalEntryType
+  hash: string
+  timestamp: number
+  job?: OperatorJob
+  replacement?: TransactionReplacement
+}
+
+export interface OperatorJobJournalState {
+  operatorJobs: {[key: string]: OperatorJob}
+  failedOperatorJobs: {[key: string]: OperatorJob}
+  executedOperatorJobs: {[key: string]: OperatorJob}
+}
+
+// Number of appended entries after which the journal is rewritten as a snapshot of the current state
+const COMPACTION_THRESHOLD = 1000
+// Number of executed jobs kept around for inspection
+export const MAX_EXECUTED_JOBS = 100
+
+export function getOperatorJobJournalPath(configDir: string, environment: string): string {
+  return path.join(configDir, environment + '.operator-job-journal.jsonl')
+}
+
+/**
+ * Drops the oldest executed jobs once there are more than MAX_EXECUTED_JOBS of them
+ */
+export function trimExecutedOperatorJobs(executedOperatorJobs: {[key: string]: OperatorJob}): void {
+  const jobHashes: string[] = Object.keys(executedOperatorJobs)
+  for (const jobHash of jobHashes.slice(0, Math.max(jobHashes.length - MAX_EXECUTED_JOBS, 0))) {
+    delete executedOperatorJobs[jobHash]
+  }
+}
+
+/**
+ * Converts the BigNumber fields of an operator job into hex strings so that it can be written as JSON
+ */
+export function serializeOperatorJob(job: OperatorJob): OperatorJob {
+  return {
+    ...job,
+    gasLimit: BigNumber.from(job.gasLimit).toHexString(),
+    gasPrice: BigNumber.from(job.gasPrice).toHexString(),
+    jobDetails: {
+      ...job.jobDetails,
+      startTimestamp: BigNumber.from(job.jobDetails.startTimestamp).toHexString(),
+    },
+  }
+}
+
+/**
+ * Restores the BigNumber fields of an operator job that was read from JSON
+ */
+export function deserializeOperatorJob(job: OperatorJob): OperatorJob {
+  return {
+    ...job,
+    gasLimit: BigNumber.from(job.gasLimit),
+    gasPrice: BigNumber.from(job.gasPrice),
+    jobDetails: {
+      ...job.jobDetails,
+      startTimestamp: BigNumber.from(job.jobDetails.startTimestamp),
+    },
+  }
+}
+
+/**
+ * OperatorJobJournal
+ * Description: Append-only log of every change made to the operator job queues.
+ * Each entry is written synchronously as a single JSON line, so the queues survive the process being killed
+ * at any point. Replaying the journal from the top rebuilds both the pending and the failed jobs.
+ */
+export class OperatorJobJournal {
+  readonly filePath: string
+  private entriesSinceCompaction = 0
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+  }
+
+  record(
+    type: OperatorJobJournalEntryType,
+    hash: string,
+    job?: OperatorJob,
+    replacement?: TransactionReplacement,
+  ): void {
+    const entry: OperatorJobJournalEntry = {
+      type,
+      hash,
+      timestamp: Date.now(),
+      job: job === undefined ? undefined : serializeOperatorJob(job),
+      replacement,
+    }
+
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n', 'utf8')
+    this.entriesSinceCompaction++
+  }
+
+  shouldCompact(): boolean {
+    return this.entriesSinceCompaction >= COMPACTION_THRESHOLD
+  }
+
+  // Holds the process id of the operator that owns the journal
+  get ownerFilePath(): string {
+    return this.filePath + '.owner'
+  }
+
+  /**
+   * Marks the journal as owned by this process. The owner rewrites the journal from its own state when compacting,
+   * so changes appended by other processes while it runs would be lost
+   */
+  claimOwnership(): void {
+    fs.writeFileSync(this.ownerFilePath, String(process.pid), 'utf8')
+  }
+
+  releaseOwnership(): void {
+    if (this.getOwner() === process.pid) {
+      fs.removeSync(this.ownerFilePath)
+    }
+  }
+
+  /**
+   * Returns the process id of the running process that owns the journal, if any
+   */
+  getOwner(): number | undefined {
+    if (!fs.pathExistsSync(this.ownerFilePath)) {
+      return undefined
+    }
+
+    const pid = Number.parseInt(fs.readFileSync(this.ownerFilePath, 'utf8'), 10)
+    if (Number.isNaN(pid)) {
+      return undefined
+    }
+
+    try {
+      // Signal 0 only checks that the process exists
+      process.kill(pid, 0)
+      return pid
+    } catch (error: any) {
+      // The process exists but belongs to another user
+      return error.code === 'EPERM' ? pid : undefined
+    }
+  }
+
+  /**
+   * Rebuilds the pending and failed job queues from the journal file
+   * A partially written last line (from a crash mid-write) is ignored
+   */
+  replay(): OperatorJobJournalState {
+    const state: OperatorJobJournalState = {operatorJobs: {}, failedOperatorJobs: {}, executedOperatorJobs: {}}
+    if (!fs.pathExistsSync(this.filePath)) {
+      return state
+    }
+
+    const lines: string[] = fs.readFileSync(this.filePath, 'utf8').split('\n')
+    for (const line of lines) {
+      if (line.trim() === '') {
+        continue
+      }
+
+      let entry: OperatorJobJournalEntry
+      try {
+        entry = JSON.parse(line) as OperatorJobJournalEntry
+      } catch {
+        continue
+      }
+
+      OperatorJobJournal.applyEntry(state, entry)
+    }
+
+    return state
+  }
+
+  /**
+   * Replaces the journal with the minimal set of entries needed to describe the given state
+   * The snapshot is written to a temporary file first and then renamed over the journal
+   */
+  compact(state: OperatorJobJournalState): void {
+    const timestamp = Date.now()
+    const lines: string[] = []
+    for (const job of Object.values(state.operatorJobs)) {
+      lines.push(
+        JSON.stringify({
+          type: OperatorJobJournalEntryType.added,
+          hash: job.hash,
+          timestamp,
+          job: serializeOperatorJob(job),
+        }),
+      )
+    }
+
+    for (const job of Object.values(state.failedOperatorJobs)) {
+      lines.push(
+        JSON.stringify({
+          type: OperatorJobJournalEntryType.failed,
+          hash: job.hash,
+          timestamp,
+          job: serializeOperatorJob(job),
+        }),
+      )
+    }
+
+    for (const job of Object.values(state.executedOperatorJobs)) {
+      lines.push(
+        JSON.stringify({
+          type: OperatorJobJournalEntryType.executed,
+          hash: job.hash,
+          timestamp,
+          job: serializeOperatorJob(job),
+        }),
+      )
+    }
+
+    const tmpFilePath = this.filePath + '.tmp'
+    fs.writeFileSync(tmpFilePath, lines.length > 0 ? lines.join('\n') + '\n' : '', 'utf8')
+    fs.renameSync(tmpFilePath, this.filePath)
+    this.entriesSinceCompaction = 0
+  }
+
+  static applyEntry(state: OperatorJobJournalState, entry: OperatorJobJournalEntry): void {
+    switch (entry.type) {
+      case OperatorJobJournalEntryType.added:
+        if (entry.job !== undefined) {
+          state.operatorJobs[entry.hash] = deserializeOperatorJob(entry.job)
+          delete state.failedOperatorJobs[entry.hash]
+          delete state.executedOperatorJobs[entry.hash]
+        }
+
+        break
+      case OperatorJobJournalEntryType.failed: {
+        const job = entry.job === undefined ? state.operatorJobs[entry.hash] : deserializeOperatorJob(entry.job)
+        if (job !== undefined) {
+          state.failedOperatorJobs[entry.hash] = job
+        }
+
+        delete state.operatorJobs[entry.hash]
+        break
+      }
+
+      case OperatorJobJournalEntryType.replaced: {
+        const job = state.operatorJobs[entry.hash] ?? state.failedOperatorJobs[entry.hash]
+        if (job !== undefined && entry.replacement !== undefined) {
+          job.replacements = [...(job.replacements ?? []), entry.replacement]
+        }
+
+        break
+      }
+
+      case OperatorJobJournalEntryType.executed: {
+        const job =
+          entry.job === undefined
+            ? state.operatorJobs[entry.hash] ?? state.failedOperatorJobs[entry.hash]
+            : deserializeOperatorJob(entry.job)
+        delete state.operatorJobs[entry.hash]
+        delete state.failedOperatorJobs[entry.hash]
+        if (job !== undefined) {
+          state.executedOperatorJobs[entry.hash] = job
+          trimExecutedOperatorJobs(state.executedOperatorJobs)
+        }
+
+        break
+      }
+
+      case OperatorJobJournalEntryType.removed:
+      case OperatorJobJournalEntryType.deadLettered:
+        delete state.operatorJobs[entry.hash]
+        delete state.failedOperatorJobs[entry.hash]
+        break
+    }
+  }
+}
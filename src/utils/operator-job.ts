@@ -2,8 +2,31 @@ import {BigNumber, BigNumberish} from '@ethersproject/bignumber'
 import {Contract} from '@ethersproject/contracts'
 
 import {NetworkMonitor} from './network-monitor'
-import {zeroAddress} from './web3'
+import {
+  OperatorJobJournal,
+  OperatorJobJournalEntryType,
+  OperatorJobJournalState,
+  trimExecutedOperatorJobs,
+} from './operator-job-journal'
+import {metrics} from './metrics'
+import {AlertEventType, AlertSeverity, Alerting} from './alerting'
+import {TransactionReplacement} from '../types/network-monitor'
+import {networkToChainId, zeroAddress} from './web3'
+import {
+  classifyJobFailure,
+  DeadLetterStore,
+  getRetryDelay,
+  JobFailure,
+  JobFailureClass,
+  JOB_RETRY_POLICIES,
+} from './job-retry'
 import {HealthCheck} from '../base-commands/healthcheck'
+import {ConfigNetwork, ConfigNetworks, ConfigOperatorTiming} from './config'
+
+// Seconds of each operator slot for jobs that do not set their block times, as in the legacy 60 second window
+const DEFAULT_SLOT_DURATION = 60
+// Number of fallback operators that get a slot after the primary operator
+const FALLBACK_OPERATOR_SLOTS = 5
 
 export interface OperatorJobDetails {
   pod: number
@@ -23,6 +46,22 @@ export interface OperatorJob {
   gasPrice: BigNumberish
   jobDetails: OperatorJobDetails
   tags?: (string | number)[]
+  replacements?: TransactionReplacement[]
+  // Transaction that emitted the AvailableOperatorJob event
+  txHash?: string
+  attempts?: number
+  nextAttemptTime?: number
+  lastFailure?: JobFailure
+  // Set when the simulation found that another operator still has time to execute the job
+  deferredUntil?: number
+}
+
+export type TargetTimeExplanation = {
+  targetTime: number
+  // Number of slots that pass before our operator can execute the job
+  slot: number
+  slotDuration: number
+  reason: string
 }
 
 export interface OperatorStatus {
@@ -45,38 +84,260 @@ export abstract class OperatorJobAwareCommand extends HealthCheck {
 
   operatorJobs: {[key: string]: OperatorJob} = {}
   failedOperatorJobs: {[key: string]: OperatorJob} = {}
+  executedOperatorJobs: {[key: string]: OperatorJob} = {}
+  jobJournal?: OperatorJobJournal
+  deadLetterStore?: DeadLetterStore
+
+  /**
+   * Adds (or refreshes) a job in the list of jobs to work on and records it in the job journal
+   */
+  addOperatorJob(operatorJob: OperatorJob): void {
+    this.operatorJobs[operatorJob.hash] = operatorJob
+    delete this.failedOperatorJobs[operatorJob.hash]
+    this.recordJobJournalEntry(OperatorJobJournalEntryType.added, operatorJob.hash, operatorJob)
+  }
 
-  getTargetTime(network: string, jobDetails: OperatorJobDetails): number {
-    let targetTime: number = new Date(BigNumber.from(jobDetails.startTimestamp).toNumber() * 1000).getTime()
-    if (jobDetails.operator !== zeroAddress && jobDetails.operator !== this.operatorStatus.address) {
-      // operator is not selected
-      // add +60 seconds to target time
-      targetTime += 60 * 1000
-
-      // ignore where operator is not in same pod
-      if (jobDetails.pod === this.operatorStatus.currentPod[network]) {
-        for (let i = 0; i < 5; i++) {
-          if (
-            jobDetails.fallbackOperators[i] >= this.operatorStatus.podSize[network] ||
-            jobDetails.fallbackOperators[i] === 0
-          ) {
-            // anyone from that pod can operate
-            break
-          } else if (jobDetails.fallbackOperators[i] === this.operatorStatus.podIndex[network]) {
-            // operator has been selected as the fallback
-            break
-          }
-
-          // add +60 seconds to target time
-          targetTime += 60 * 1000
+  /**
+   * Removes a job from both job lists and records why it was removed in the job journal
+   */
+  removeOperatorJob(
+    jobHash: string,
+    reason: OperatorJobJournalEntryType.executed | OperatorJobJournalEntryType.removed,
+  ): void {
+    if (!(jobHash in this.operatorJobs) && !(jobHash in this.failedOperatorJobs)) {
+      return
+    }
+
+    const operatorJob: OperatorJob = this.operatorJobs[jobHash] ?? this.failedOperatorJobs[jobHash]
+    delete this.operatorJobs[jobHash]
+    delete this.failedOperatorJobs[jobHash]
+    if (reason === OperatorJobJournalEntryType.executed) {
+      this.executedOperatorJobs[jobHash] = operatorJob
+      trimExecutedOperatorJobs(this.executedOperatorJobs)
+      this.recordJobJournalEntry(reason, jobHash, operatorJob)
+      metrics.executedJobs().inc({network: operatorJob.network})
+    } else {
+      this.recordJobJournalEntry(reason, jobHash)
+    }
+  }
+
+  /**
+   * Moves a job from the list of jobs to work on into the list of failed jobs
+   * The job is retried with an exponential backoff, until it runs out of attempts for its class of failure.
+   * It is then removed from both lists and written to the dead-letter store.
+   */
+  failOperatorJob(jobHash: string, error?: any): void {
+    const operatorJob: OperatorJob | undefined = this.operatorJobs[jobHash] ?? this.failedOperatorJobs[jobHash]
+    if (operatorJob === undefined) {
+      return
+    }
+
+    const failureClass: JobFailureClass = classifyJobFailure(error)
+    const policy = JOB_RETRY_POLICIES[failureClass]
+    const timestamp = Date.now()
+    operatorJob.attempts = (operatorJob.attempts ?? 0) + 1
+    operatorJob.lastFailure = {failureClass, message: error?.message ?? 'unknown error', timestamp}
+    metrics.failedJobs().inc({network: operatorJob.network})
+
+    if (operatorJob.attempts >= policy.maxAttempts) {
+      this.deadLetterOperatorJob(operatorJob)
+      return
+    }
+
+    operatorJob.nextAttemptTime = timestamp + getRetryDelay(policy, operatorJob.attempts)
+    this.failedOperatorJobs[jobHash] = operatorJob
+    delete this.operatorJobs[jobHash]
+    this.recordJobJournalEntry(OperatorJobJournalEntryType.failed, jobHash, operatorJob)
+    Alerting.Instance.emit({
+      type: AlertEventType.jobFailed,
+      severity: AlertSeverity.warning,
+      network: operatorJob.network,
+      message: `Job ${jobHash} failed with ${failureClass}`,
+      details: {jobHash, failureClass, attempts: operatorJob.attempts, error: operatorJob.lastFailure.message},
+      dedupKey: `${AlertEventType.jobFailed}:${jobHash}:${operatorJob.attempts}`,
+    })
+    this.networkMonitor.structuredLog(
+      operatorJob.network,
+      `Job ${jobHash} failed with ${failureClass} (attempt ${operatorJob.attempts} of ${
+        policy.maxAttempts
+      }), retrying at ${new Date(operatorJob.nextAttemptTime).toISOString()}`,
+      operatorJob.tags,
+    )
+  }
+
+  /**
+   * Moves the failed jobs of a network that are due for a retry back into the list of jobs to work on
+   */
+  requeueFailedOperatorJobs(network: string): void {
+    const now = Date.now()
+    for (const operatorJob of Object.values(this.failedOperatorJobs)) {
+      if (operatorJob.network === network && (operatorJob.nextAttemptTime ?? 0) <= now) {
+        this.networkMonitor.structuredLog(network, `Retrying job ${operatorJob.hash}`, operatorJob.tags)
+        this.addOperatorJob(operatorJob)
+      }
+    }
+  }
+
+  private deadLetterOperatorJob(operatorJob: OperatorJob): void {
+    const {failureClass, message, timestamp} = operatorJob.lastFailure!
+    try {
+      this.deadLetterStore?.add({
+        // eslint-disable-next-line camelcase
+        source_tx: operatorJob.txHash,
+        // eslint-disable-next-line camelcase
+        source_chain_id: operatorJob.txHash === undefined ? undefined : networkToChainId[operatorJob.network],
+        // eslint-disable-next-line camelcase
+        job_hash: operatorJob.hash,
+        network: operatorJob.network,
+        payload: operatorJob.payload,
+        // eslint-disable-next-line camelcase
+        failure_class: failureClass,
+        attempts: operatorJob.attempts ?? 0,
+        error: message,
+        timestamp,
+      })
+    } catch (error: any) {
+      this.networkMonitor.structuredLogError(
+        operatorJob.network,
+        `Failed writing job ${operatorJob.hash} to the dead-letter store: ${error.message}`,
+        operatorJob.tags,
+      )
+    }
+
+    delete this.operatorJobs[operatorJob.hash]
+    delete this.failedOperatorJobs[operatorJob.hash]
+    this.recordJobJournalEntry(OperatorJobJournalEntryType.deadLettered, operatorJob.hash)
+    Alerting.Instance.emit({
+      type: AlertEventType.jobDeadLettered,
+      severity: AlertSeverity.critical,
+      network: operatorJob.network,
+      message: `Job ${operatorJob.hash} was dead-lettered after ${operatorJob.attempts ?? 0} attempts`,
+      details: {jobHash: operatorJob.hash, failureClass, attempts: operatorJob.attempts ?? 0, error: message},
+    })
+    this.networkMonitor.structuredLogError(
+      operatorJob.network,
+      `Job ${operatorJob.hash} failed ${operatorJob.attempts} times with ${failureClass}, moved it to the dead-letter store`,
+      operatorJob.tags,
+    )
+  }
+
+  /**
+   * Keeps track of every attempt to replace the transaction of a job that got stuck in the mempool
+   */
+  recordTransactionReplacement(replacement: TransactionReplacement): void {
+    if (replacement.jobHash === undefined) {
+      return
+    }
+
+    const operatorJob: OperatorJob | undefined =
+      this.operatorJobs[replacement.jobHash] ?? this.failedOperatorJobs[replacement.jobHash]
+    if (operatorJob === undefined) {
+      return
+    }
+
+    operatorJob.replacements = [...(operatorJob.replacements ?? []), replacement]
+    this.recordJobJournalEntry(OperatorJobJournalEntryType.replaced, replacement.jobHash, undefined, replacement)
+  }
+
+  getJobJournalState(): OperatorJobJournalState {
+    return {
+      operatorJobs: this.operatorJobs,
+      failedOperatorJobs: this.failedOperatorJobs,
+      executedOperatorJobs: this.executedOperatorJobs,
+    }
+  }
+
+  private recordJobJournalEntry(
+    type: OperatorJobJournalEntryType,
+    jobHash: string,
+    operatorJob?: OperatorJob,
+    replacement?: TransactionReplacement,
+  ): void {
+    if (this.jobJournal === undefined) {
+      return
+    }
+
+    try {
+      this.jobJournal.record(type, jobHash, operatorJob, replacement)
+      if (this.jobJournal.shouldCompact()) {
+        this.jobJournal.compact(this.getJobJournalState())
+      }
+    } catch (error: any) {
+      const loggedJob: OperatorJob | undefined =
+        operatorJob ?? this.operatorJobs[jobHash] ?? this.failedOperatorJobs[jobHash]
+      this.networkMonitor.structuredLogError(
+        loggedJob?.network,
+        `Failed writing ${type} entry for job ${jobHash} to the job journal: ${error.message}`,
+        loggedJob?.tags,
+      )
+    }
+  }
+
+  /**
+   * Duration of a primary or fallback operator slot, in milliseconds
+   * Like the contract, a slot lasts the block times of the job in seconds. Networks can override this in their config
+   * with a fixed slot duration, or by counting the block times in blocks of a set or measured block time.
+   */
+  getSlotDuration(network: string, jobDetails: OperatorJobDetails): number {
+    const networkConfig = this.networkMonitor.configFile.networks[network as keyof ConfigNetworks] as
+      | ConfigNetwork
+      | undefined
+    const timing: ConfigOperatorTiming = networkConfig?.operatorTiming ?? {}
+    if (timing.slotDuration !== undefined) {
+      return timing.slotDuration * 1000
+    }
+
+    if (!jobDetails.blockTimes) {
+      return DEFAULT_SLOT_DURATION * 1000
+    }
+
+    const blockTime: number | undefined =
+      timing.blockTime ?? (timing.measureBlockTime ? this.networkMonitor.blockTimes[network] : undefined)
+    return Math.round(jobDetails.blockTimes * (blockTime ?? 1) * 1000)
+  }
+
+  /**
+   * Works out which slot our operator gets to execute a job in, and why
+   */
+  explainTargetTime(network: string, jobDetails: OperatorJobDetails): TargetTimeExplanation {
+    const startTime: number = BigNumber.from(jobDetails.startTimestamp).toNumber() * 1000
+    const slotDuration: number = this.getSlotDuration(network, jobDetails)
+    let slot = 0
+    let reason: string
+
+    if (jobDetails.operator === zeroAddress) {
+      reason = 'no operator was selected, anyone can execute right away'
+    } else if (jobDetails.operator === this.operatorStatus.address) {
+      reason = 'our operator was selected as the primary operator'
+    } else if (jobDetails.pod === this.operatorStatus.currentPod[network]) {
+      // The primary operator has the first slot
+      slot = 1
+      reason = `our operator is not one of the ${FALLBACK_OPERATOR_SLOTS} fallback operators of pod ${jobDetails.pod}`
+      for (let i = 0; i < FALLBACK_OPERATOR_SLOTS; i++) {
+        if (
+          jobDetails.fallbackOperators[i] >= this.operatorStatus.podSize[network] ||
+          jobDetails.fallbackOperators[i] === 0
+        ) {
+          reason = `anyone in pod ${jobDetails.pod} can execute from fallback slot ${i + 1}`
+          break
+        } else if (jobDetails.fallbackOperators[i] === this.operatorStatus.podIndex[network]) {
+          reason = `our operator is fallback operator ${i + 1} of pod ${jobDetails.pod}`
+          break
         }
-      } else {
-        // add time delay for 5 fallback operators to have a chance first
-        targetTime += 60 * 1000 * 5
+
+        slot++
       }
+    } else {
+      // Operators outside of the pod wait for the primary and every fallback operator
+      slot = 1 + FALLBACK_OPERATOR_SLOTS
+      reason = `our operator is not in pod ${jobDetails.pod}, it waits for the primary and fallback operators`
     }
 
-    return targetTime
+    return {targetTime: startTime + slot * slotDuration, slot, slotDuration, reason}
+  }
+
+  getTargetTime(network: string, jobDetails: OperatorJobDetails): number {
+    return this.explainTargetTime(network, jobDetails).targetTime
   }
 
   async decodeOperatorJob(
@@ -84,6 +345,7 @@ export abstract class OperatorJobAwareCommand extends HealthCheck {
     operatorJobHash: string,
     operatorJobPayload: string,
     tags: (string | number)[],
+    txHash?: string,
   ): Promise<OperatorJob | undefined> {
     try {
       const contract: Contract = this.networkMonitor.operatorContract.connect(this.networkMonitor.providers[network])
@@ -93,10 +355,18 @@ export abstract class OperatorJobAwareCommand extends HealthCheck {
 
       this.networkMonitor.structuredLog(network, `Decoded valid job ${operatorJobHash}`, tags)
 
-      const targetTime: number = this.getTargetTime(network, jobDetails)
+      const {targetTime, slot, slotDuration, reason} = this.explainTargetTime(network, jobDetails)
+      this.debug(
+        `Job ${operatorJobHash} on ${network} can be executed in slot ${slot} of ${
+          slotDuration / 1000
+        } seconds at ${new Date(targetTime).toISOString()}: ${reason}`,
+      )
 
       const {gasLimit, gasPrice} = this.extractGasDetailsFromPayload(operatorJobPayload)
 
+      // Keep the bookkeeping of a job that is already known, when its details are refreshed
+      const knownJob: OperatorJob | undefined =
+        this.operatorJobs[operatorJobHash] ?? this.failedOperatorJobs[operatorJobHash]
       const operatorJob: OperatorJob = {
         network,
         hash: operatorJobHash,
@@ -106,9 +376,23 @@ export abstract class OperatorJobAwareCommand extends HealthCheck {
         gasPrice,
         jobDetails,
         tags,
+        replacements: knownJob?.replacements,
+        txHash: txHash ?? knownJob?.txHash,
+        attempts: knownJob?.attempts,
+        lastFailure: knownJob?.lastFailure,
+        nextAttemptTime: knownJob?.nextAttemptTime,
+        deferredUntil: knownJob?.deferredUntil,
+      }
+
+      // A failed job waits out its retry backoff, refreshing its details does not requeue it
+      if (operatorJobHash in this.failedOperatorJobs) {
+        this.failedOperatorJobs[operatorJobHash] = operatorJob
+        this.recordJobJournalEntry(OperatorJobJournalEntryType.failed, operatorJobHash, operatorJob)
+        this.networkMonitor.structuredLog(network, `Refreshed failed job ${operatorJobHash}`, tags)
+        return operatorJob
       }
 
-      this.operatorJobs[operatorJobHash] = operatorJob
+      this.addOperatorJob(operatorJob)
 
       this.networkMonitor.structuredLog(
         network,
@@ -288,7 +572,7 @@ export abstract class OperatorJobAwareCommand extends HealthCheck {
           `Job ${job.hash} is no longer active/valid, removing it from list`,
           tags,
         )
-        delete this.operatorJobs[job.hash]
+        this.removeOperatorJob(job.hash, OperatorJobJournalEntryType.removed)
       }
     } catch (error: any) {
       this.networkMonitor.structuredLogError(
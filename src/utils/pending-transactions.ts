@@ -0,0 +1,47 @@
+import * as path from 'node:path'
+import * as fs from 'fs-extra'
+
+export type PendingTransaction = {
+  network: string
+  nonce: number
+  // The original transaction first, followed by its replacements
+  hashes: string[]
+  jobHash?: string
+  submittedAt: number
+}
+
+export function getPendingTransactionsFilePath(configDir: string, environment: string): string {
+  return path.join(configDir, environment + '.operator-pending-transactions.json')
+}
+
+/**
+ * PendingTransactionStore
+ * Description: JSON file of the transactions that were still unconfirmed when the operator shut down.
+ * They are checked on the next start, before the jobs they belong to can be executed again.
+ */
+export class PendingTransactionStore {
+  readonly filePath: string
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+  }
+
+  read(): PendingTransaction[] {
+    if (!fs.pathExistsSync(this.filePath)) {
+      return []
+    }
+
+    return fs.readJsonSync(this.filePath) as PendingTransaction[]
+  }
+
+  write(transactions: PendingTransaction[]): void {
+    if (transactions.length === 0) {
+      fs.removeSync(this.filePath)
+      return
+    }
+
+    const tmpFilePath = this.filePath + '.tmp'
+    fs.writeJsonSync(tmpFilePath, transactions, {spaces: 2})
+    fs.renameSync(tmpFilePath, this.filePath)
+  }
+}
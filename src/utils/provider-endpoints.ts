@@ -0,0 +1,188 @@
+import {ConfigNetwork, ConfigProviderEndpoint} from './config'
+
+export enum ProviderEndpointRole {
+  // Endpoints the block subscription is made on, preferably websockets
+  subscriptions = 'subscriptions',
+  // Endpoints that calls, logs and transactions are sent to, preferably http
+  queries = 'queries',
+}
+
+export type ProviderEndpointHealth = {
+  url: string
+  role: ProviderEndpointRole
+  weight: number
+  active: boolean
+  healthy: boolean
+  consecutiveFailures: number
+  lastError?: string
+  lastFailureAt?: string
+}
+
+type EndpointState = {
+  consecutiveFailures: number
+  lastError?: string
+  lastFailureAt?: number
+}
+
+// An endpoint that failed is not used again, nor probed for a fail back, before this many milliseconds
+const ENDPOINT_COOLDOWN = 60_000
+
+const WEBSOCKET_PROTOCOLS = new Set(['ws:', 'wss:'])
+const SUPPORTED_PROTOCOLS = new Set(['http:', 'https:', 'ws:', 'wss:'])
+
+// Only the origin is reported, provider urls commonly carry an api key in their path or query
+function redactUrl(url: string): string {
+  const {protocol, host} = new URL(url)
+  return `${protocol}//${host}`
+}
+
+const URL_IN_TEXT_REGEX = /\b(?:https?|wss?):\/\/[^\s"',<>]+/gi
+
+/**
+ * Redacts the urls found in a text, like the url="..." that provider errors carry
+ */
+export function redactUrls(text: string): string {
+  return text.replace(URL_IN_TEXT_REGEX, (url: string) => {
+    try {
+      return redactUrl(url)
+    } catch {
+      return '[redacted url]'
+    }
+  })
+}
+
+export function isWebSocketUrl(url: string): boolean {
+  return WEBSOCKET_PROTOCOLS.has(new URL(url).protocol)
+}
+
+/**
+ * Errors of the endpoint itself, as opposed to errors of the request, count towards a fail over
+ */
+export function isProviderError(error: any): boolean {
+  const message = `${error?.code ?? ''} ${error?.message ?? ''}`
+  return /timeout|timed out|econn|enotfound|socket hang up|server_error|network_error|missing response|bad response/i.test(
+    message,
+  )
+}
+
+/**
+ * Returns the endpoints of a network from the highest weight to the lowest, keeping the config order between equals
+ * A network configured with a single providerUrl gets it as its only endpoint
+ */
+export function getProviderEndpoints(networkConfig: ConfigNetwork): ConfigProviderEndpoint[] {
+  const endpoints: ConfigProviderEndpoint[] =
+    networkConfig.providerEndpoints ?? (networkConfig.providerUrl ? [{url: networkConfig.providerUrl}] : [])
+  for (const {url} of endpoints) {
+    const protocol = new URL(url).protocol
+    if (!SUPPORTED_PROTOCOLS.has(protocol)) {
+      throw new Error('Unsupported RPC provider protocol -> ' + protocol)
+    }
+  }
+
+  return endpoints
+    .map((endpoint, index) => ({endpoint, index}))
+    .sort((a, b) => (b.endpoint.weight ?? 1) - (a.endpoint.weight ?? 1) || a.index - b.index)
+    .map(({endpoint}) => endpoint)
+}
+
+/**
+ * ProviderEndpointPool
+ * Description: The endpoints of a network that serve one role, with the health of each of them.
+ * The first endpoint is the primary. Failing over moves to the next healthy endpoint in order,
+ * failing back returns to the primary once it has been out of use for the cooldown.
+ */
+export class ProviderEndpointPool {
+  readonly role: ProviderEndpointRole
+  readonly endpoints: ConfigProviderEndpoint[]
+  private activeIndex = 0
+  private states: EndpointState[]
+
+  constructor(role: ProviderEndpointRole, endpoints: ConfigProviderEndpoint[]) {
+    if (endpoints.length === 0) {
+      throw new Error('At least one RPC endpoint is required')
+    }
+
+    // Endpoints restricted to the other role are left out, unless that leaves none
+    const roleEndpoints = endpoints.filter(endpoint => endpoint.role === undefined || endpoint.role === role)
+    this.role = role
+    this.endpoints = roleEndpoints.length > 0 ? roleEndpoints : endpoints
+    this.states = this.endpoints.map(() => ({consecutiveFailures: 0}))
+  }
+
+  get active(): ConfigProviderEndpoint {
+    return this.endpoints[this.activeIndex]
+  }
+
+  get onPrimary(): boolean {
+    return this.activeIndex === 0
+  }
+
+  /**
+   * Records a failure of the active endpoint, and returns the number of failures in a row it is at
+   */
+  markFailure(error: string): number {
+    const state = this.states[this.activeIndex]
+    state.consecutiveFailures += 1
+    state.lastError = redactUrls(error)
+    state.lastFailureAt = Date.now()
+    return state.consecutiveFailures
+  }
+
+  markSuccess(): void {
+    this.states[this.activeIndex].consecutiveFailures = 0
+  }
+
+  isHealthy(index: number): boolean {
+    const {lastFailureAt} = this.states[index]
+    return lastFailureAt === undefined || Date.now() - lastFailureAt > ENDPOINT_COOLDOWN
+  }
+
+  /**
+   * Moves to the next healthy endpoint, returns undefined when there is no other endpoint to move to
+   */
+  failover(): ConfigProviderEndpoint | undefined {
+    for (let offset = 1; offset < this.endpoints.length; offset++) {
+      const index = (this.activeIndex + offset) % this.endpoints.length
+      if (this.isHealthy(index)) {
+        this.activeIndex = index
+        return this.active
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * The primary can be probed for a fail back once its cooldown has passed
+   */
+  canFailBack(): boolean {
+    return !this.onPrimary && this.isHealthy(0)
+  }
+
+  failBack(): ConfigProviderEndpoint {
+    this.activeIndex = 0
+    this.states[0].consecutiveFailures = 0
+    return this.active
+  }
+
+  markPrimaryFailure(error: string): void {
+    this.states[0].lastError = redactUrls(error)
+    this.states[0].lastFailureAt = Date.now()
+  }
+
+  health(): ProviderEndpointHealth[] {
+    return this.endpoints.map((endpoint, index) => {
+      const state = this.states[index]
+      return {
+        url: redactUrl(endpoint.url),
+        role: this.role,
+        weight: endpoint.weight ?? 1,
+        active: index === this.activeIndex,
+        healthy: this.isHealthy(index),
+        consecutiveFailures: state.consecutiveFailures,
+        lastError: state.lastError,
+        lastFailureAt: state.lastFailureAt === undefined ? undefined : new Date(state.lastFailureAt).toISOString(),
+      }
+    })
+  }
+}
@@ -0,0 +1,78 @@
+import {ISO_DATE_PATTERN, parseIsoDate} from './block-timestamp'
+
+// A block number, or a date that is resolved to a block on each network
+export type ReplayBound = number | Date
+
+export type ReplayRange = {
+  start: ReplayBound
+  // Open ended ranges stop at the latest block of the network when the replay starts
+  end?: ReplayBound
+}
+
+export type ReplayInput = {
+  // Inputs without a network apply to the only network monitored, or to every network when they only hold dates
+  network?: string
+  range: ReplayRange
+}
+
+// Value of the replay flag that leaves replay mode off
+export const REPLAY_DISABLED = '0'
+
+const BOUND_PATTERN = String.raw`(\d+|${ISO_DATE_PATTERN})`
+const REPLAY_INPUT_REGEX = new RegExp(String.raw`^(?:([A-Za-z]\w*)=)?${BOUND_PATTERN}(?::${BOUND_PATTERN}?)?$`)
+
+export function isReplayEnabled(replay?: string[]): boolean {
+  return replay !== undefined && replay.some(input => input !== REPLAY_DISABLED)
+}
+
+function parseReplayBound(input: string): ReplayBound {
+  return /^\d+$/.test(input) ? Number(input) : parseIsoDate(input)
+}
+
+export function isBlockRange(range: ReplayRange): boolean {
+  return typeof range.start === 'number' || typeof range.end === 'number'
+}
+
+/**
+ * Parses one input of the replay flag, a block range like 30909:30999 optionally prefixed by a network like
+ * ethereum=18000000:18000500. The end block can be left out, as in polygon=49000000: or 30909
+ * Either bound can be an ISO date instead, as in 2024-05-01T10:00Z:2024-05-01T12:00Z
+ */
+export function parseReplayInput(input: string): ReplayInput {
+  const match = REPLAY_INPUT_REGEX.exec(input.trim())
+  if (match === null) {
+    throw new Error(`Replay flag input format is not valid -> ${input}`)
+  }
+
+  const [, network, start, end] = match
+  const range: ReplayRange = {start: parseReplayBound(start), end: end ? parseReplayBound(end) : undefined}
+  if (range.end !== undefined && typeof range.start === typeof range.end && range.start > range.end) {
+    throw new Error(`End block must be greater than start block number -> ${input}`)
+  }
+
+  return {network, range}
+}
+
+/**
+ * Parses every input of the replay flag, ignoring the value that leaves replay mode off
+ * A network can only get one range, and so can the monitored networks through an input without a network
+ */
+export function parseReplayInputs(inputs: string[]): ReplayInput[] {
+  const replayInputs: ReplayInput[] = inputs
+    .filter(input => input !== REPLAY_DISABLED)
+    .map(input => parseReplayInput(input))
+  const seen: Set<string | undefined> = new Set()
+  for (const {network} of replayInputs) {
+    if (seen.has(network)) {
+      throw new Error(
+        network === undefined
+          ? 'Replay flag has more than one range without a network'
+          : `Replay flag has more than one range for ${network}`,
+      )
+    }
+
+    seen.add(network)
+  }
+
+  return replayInputs
+}
@@ -0,0 +1,125 @@
+import {expect} from '@oclif/test'
+
+import {
+  BlockTimestampMatch,
+  BlockTimestampResolver,
+  BlockTimestampSource,
+  isIsoDate,
+  parseIsoDate,
+} from '../../src/utils/block-timestamp'
+
+const GENESIS_TIMESTAMP = 1_700_000_000
+const BLOCK_TIME = 12
+
+// Blocks 0 to 100 are 12 seconds apart, except blocks 50 to 52 that share a timestamp
+const timestamps: number[] = Array.from({length: 101}, (_value, block) => {
+  if (block >= 50 && block <= 52) {
+    return GENESIS_TIMESTAMP + 50 * BLOCK_TIME
+  }
+
+  return GENESIS_TIMESTAMP + block * BLOCK_TIME
+})
+
+function toDate(timestamp: number): Date {
+  return new Date(timestamp * 1000)
+}
+
+class TimestampSourceStub implements BlockTimestampSource {
+  calls = 0
+
+  async getBlockNumber(): Promise<number> {
+    return timestamps.length - 1
+  }
+
+  async getBlockTimestamp(blockNumber: number): Promise<number> {
+    this.calls++
+    return timestamps[blockNumber]
+  }
+}
+
+describe('block timestamp', () => {
+  describe('BlockTimestampResolver', () => {
+    const head = timestamps.length - 1
+    const cases: {name: string; timestamp: number; atOrAfter: number | string; atOrBefore: number | string}[] = [
+      {
+        name: 'before genesis',
+        timestamp: GENESIS_TIMESTAMP - 1,
+        atOrAfter: 0,
+        atOrBefore: 'the first block is newer',
+      },
+      {name: 'exactly on genesis', timestamp: GENESIS_TIMESTAMP, atOrAfter: 0, atOrBefore: 0},
+      {name: 'exactly on a block', timestamp: GENESIS_TIMESTAMP + 20 * BLOCK_TIME, atOrAfter: 20, atOrBefore: 20},
+      {name: 'between two blocks', timestamp: GENESIS_TIMESTAMP + 20 * BLOCK_TIME + 5, atOrAfter: 21, atOrBefore: 20},
+      {
+        name: 'on blocks that share a timestamp',
+        timestamp: GENESIS_TIMESTAMP + 50 * BLOCK_TIME,
+        atOrAfter: 50,
+        atOrBefore: 52,
+      },
+      {name: 'exactly on the head', timestamp: timestamps[head], atOrAfter: head, atOrBefore: head},
+      {
+        name: 'after the head',
+        timestamp: timestamps[head] + 1,
+        atOrAfter: 'the latest block is older',
+        atOrBefore: head,
+      },
+    ]
+
+    for (const {name, timestamp, atOrAfter, atOrBefore} of cases) {
+      for (const [match, expected] of [
+        [BlockTimestampMatch.atOrAfter, atOrAfter],
+        [BlockTimestampMatch.atOrBefore, atOrBefore],
+      ] as [BlockTimestampMatch, number | string][]) {
+        it(`finds the block ${match} a time ${name}`, async () => {
+          const resolver = new BlockTimestampResolver(new TimestampSourceStub())
+          if (typeof expected === 'number') {
+            expect(await resolver.findBlock(toDate(timestamp), match)).to.equal(expected)
+            return
+          }
+
+          let failure: Error | undefined
+          try {
+            await resolver.findBlock(toDate(timestamp), match)
+          } catch (error: any) {
+            failure = error
+          }
+
+          expect(failure?.message).to.contain(expected)
+        })
+      }
+    }
+
+    it('ignores the milliseconds of the time, like block timestamps do', async () => {
+      const resolver = new BlockTimestampResolver(new TimestampSourceStub())
+      const date = new Date(toDate(GENESIS_TIMESTAMP + 20 * BLOCK_TIME).getTime() + 500)
+      expect(await resolver.findBlock(date, BlockTimestampMatch.atOrAfter)).to.equal(20)
+    })
+
+    it('reuses the timestamps already fetched', async () => {
+      const source = new TimestampSourceStub()
+      const resolver = new BlockTimestampResolver(source)
+      await resolver.findBlock(toDate(GENESIS_TIMESTAMP + 30 * BLOCK_TIME), BlockTimestampMatch.atOrAfter)
+      const calls = source.calls
+      await resolver.findBlock(toDate(GENESIS_TIMESTAMP + 30 * BLOCK_TIME), BlockTimestampMatch.atOrAfter)
+      expect(source.calls).to.equal(calls)
+    })
+  })
+
+  describe('parseIsoDate', () => {
+    const validDates = ['2024-05-01', '2024-05-01T10:00Z', '2024-05-01T10:00:00.123Z', '2024-05-01T10:00:00+02:00']
+    for (const input of validDates) {
+      it(`parses ${input}`, () => {
+        expect(isIsoDate(input)).to.be.true
+        expect(parseIsoDate(input).getTime()).to.equal(Date.parse(input))
+      })
+    }
+
+    const invalidDates = ['2024-5-1', '2024-13-01', '01-05-2024', '2024-05-01T10', '18000000', 'yesterday']
+    for (const input of invalidDates) {
+      it(`rejects ${input}`, () => {
+        expect(isIsoDate(input)).to.be.false
+        expect(() => parseIsoDate(input)).to.throw(`${input} is not a valid ISO date`)
+      })
+    }
+  })
+})
@@ -0,0 +1,284 @@
+import * as fs from 'fs-extra'
+import * as net from 'node:net'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {expect} from '@oclif/test'
+
+import {FileLockBackend, parseRespValue, RedisLockBackend} from '../../src/utils/execution-lock'
+import {sleep} from '../../src/utils/utils'
+
+type StoredKey = {
+  value: string
+  expiresAt: number
+}
+
+/**
+ * Reads the commands sent by a client, arrays of bulk strings, from the buffer
+ * Returns the commands and the bytes left over once the buffer holds no whole command anymore
+ */
+function readCommands(buffer: Buffer): [string[][], Buffer] {
+  const commands: string[][] = []
+  let data = buffer.toString('utf8')
+  const match = /^\*(\d+)\r\n/
+  let header = match.exec(data)
+  while (header !== null) {
+    const args: string[] = []
+    let rest = data.slice(header[0].length)
+    for (let i = 0; i < Number(header[1]); i++) {
+      const bulk = /^\$(\d+)\r\n/.exec(rest)
+      if (bulk === null || rest.length < bulk[0].length + Number(bulk[1]) + 2) {
+        return [commands, Buffer.from(data)]
+      }
+
+      args.push(rest.slice(bulk[0].length, bulk[0].length + Number(bulk[1])))
+      rest = rest.slice(bulk[0].length + Number(bulk[1]) + 2)
+    }
+
+    commands.push(args)
+    data = rest
+    header = match.exec(data)
+  }
+
+  return [commands, Buffer.from(data)]
+}
+
+/**
+ * A stand-in for Redis that implements the commands used by the lock backend
+ * Setting the malformed key gets a reply of an unknown type
+ * Replies are split in two writes, so the client has to parse values spread over several chunks
+ */
+function startRespServer(): Promise<net.Server> {
+  const keys: Map<string, StoredKey> = new Map()
+  const get = (key: string): string | undefined => {
+    const stored = keys.get(key)
+    if (stored !== undefined && stored.expiresAt <= Date.now()) {
+      keys.delete(key)
+      return undefined
+    }
+
+    return stored?.value
+  }
+
+  const execute = ([name, ...args]: string[]): string => {
+    switch (name) {
+      case 'SET': {
+        // SET key value NX PX ttl
+        const [key, value] = args
+        const ttl = args[4]
+        if (key === 'malformed') {
+          return '?unexpected\r\n'
+        }
+
+        if (get(key) !== undefined) {
+          return '$-1\r\n'
+        }
+
+        keys.set(key, {value, expiresAt: Date.now() + Number(ttl)})
+        return '+OK\r\n'
+      }
+
+      case 'EVAL': {
+        const [script, , key, owner, ttl] = args
+        if (get(key) !== owner) {
+          return ':0\r\n'
+        }
+
+        if (script.includes('PEXPIRE')) {
+          keys.set(key, {value: owner, expiresAt: Date.now() + Number(ttl)})
+        } else {
+          keys.delete(key)
+        }
+
+        return ':1\r\n'
+      }
+
+      default:
+        return `-ERR unknown command '${name}'\r\n`
+    }
+  }
+
+  const server = net.createServer(socket => {
+    let buffer: Buffer = Buffer.alloc(0)
+    // Replies are queued so that the chunks of consecutive replies never interleave
+    let replies: Promise<void> = Promise.resolve()
+    socket.on('data', (data: Buffer) => {
+      const [commands, rest] = readCommands(Buffer.concat([buffer, data]))
+      buffer = rest
+      for (const command of commands) {
+        const reply = execute(command)
+        const middle = Math.ceil(reply.length / 2)
+        replies = replies.then(async () => {
+          socket.write(reply.slice(0, middle))
+          await sleep(1)
+          socket.write(reply.slice(middle))
+        })
+      }
+    })
+  })
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => resolve(server))
+  })
+}
+
+describe('execution lock', () => {
+  describe('parseRespValue', () => {
+    it('parses simple strings, errors and integers', () => {
+      expect(parseRespValue(Buffer.from('+OK\r\n'), 0)).to.deep.equal(['OK', 5])
+      expect(parseRespValue(Buffer.from(':42\r\n'), 0)).to.deep.equal([42, 5])
+      const [error] = parseRespValue(Buffer.from('-ERR wrong type\r\n'), 0)!
+      expect(error).to.be.instanceOf(Error)
+      expect((error as Error).message).to.equal('ERR wrong type')
+    })
+
+    it('parses bulk strings, null values and nested arrays', () => {
+      expect(parseRespValue(Buffer.from('$5\r\nhello\r\n'), 0)).to.deep.equal(['hello', 11])
+      expect(parseRespValue(Buffer.from('$-1\r\n'), 0)).to.deep.equal([null, 5])
+      expect(parseRespValue(Buffer.from('*2\r\n:1\r\n*1\r\n$1\r\na\r\n'), 0)).to.deep.equal([[1, ['a']], 19])
+    })
+
+    it('parses from an offset and waits for values that are not complete', () => {
+      expect(parseRespValue(Buffer.from('+OK\r\n:7\r\n'), 5)).to.deep.equal([7, 9])
+      expect(parseRespValue(Buffer.from('$5\r\nhel'), 0)).to.be.undefined
+      expect(parseRespValue(Buffer.from('*2\r\n:1\r\n'), 0)).to.be.undefined
+      expect(parseRespValue(Buffer.from('+OK'), 0)).to.be.undefined
+    })
+
+    it('rejects unknown types', () => {
+      expect(() => parseRespValue(Buffer.from('?1\r\n'), 0)).to.throw('Unexpected RESP type ?')
+    })
+  })
+
+  describe('FileLockBackend', () => {
+    let directory: string
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'execution-lock-'))
+    })
+
+    afterEach(() => {
+      fs.removeSync(directory)
+    })
+
+    it('gives a lock to one owner at a time and renews it for that owner', async () => {
+      const backend = new FileLockBackend(directory)
+      expect(await backend.acquire('leader', 'a', 10_000)).to.be.true
+      expect(await backend.acquire('leader', 'b', 10_000)).to.be.false
+      expect(await backend.acquire('leader', 'a', 10_000)).to.be.true
+    })
+
+    it('only releases a lock for its owner', async () => {
+      const backend = new FileLockBackend(directory)
+      expect(await backend.acquire('leader', 'a', 10_000)).to.be.true
+      await backend.release('leader', 'b')
+      expect(await backend.acquire('leader', 'b', 10_000)).to.be.false
+      await backend.release('leader', 'a')
+      expect(await backend.acquire('leader', 'b', 10_000)).to.be.true
+    })
+
+    it('lets a single replica take over an expired lock', async () => {
+      expect(await new FileLockBackend(directory).acquire('leader', 'expired', 1)).to.be.true
+      await sleep(10)
+
+      const owners = ['a', 'b', 'c', 'd', 'e']
+      const acquired = await Promise.all(
+        owners.map(owner => new FileLockBackend(directory).acquire('leader', owner, 10_000)),
+      )
+      expect(acquired.filter(Boolean)).to.have.length(1)
+
+      const winner = owners[acquired.indexOf(true)]
+      expect(await new FileLockBackend(directory).acquire('leader', 'expired', 10_000)).to.be.false
+      expect(await new FileLockBackend(directory).acquire('leader', winner, 10_000)).to.be.true
+    })
+
+    it('removes a guard left behind by a replica that died while holding it', async () => {
+      const backend = new FileLockBackend(directory)
+      const guardPath = path.join(directory, 'leader.lock.guard')
+      fs.mkdirSync(guardPath)
+      const staleTime = new Date(Date.now() - 60_000)
+      fs.utimesSync(guardPath, staleTime, staleTime)
+
+      expect(await backend.acquire('leader', 'a', 10_000)).to.be.true
+      expect(fs.pathExistsSync(guardPath)).to.be.false
+    })
+  })
+
+  describe('RedisLockBackend', () => {
+    let server: net.Server
+    let url: string
+    const backends: RedisLockBackend[] = []
+    const createBackend = (): RedisLockBackend => {
+      const backend = new RedisLockBackend(url)
+      backends.push(backend)
+      return backend
+    }
+
+    before(async () => {
+      server = await startRespServer()
+      url = `redis://127.0.0.1:${(server.address() as net.AddressInfo).port}`
+    })
+
+    afterEach(async () => {
+      await Promise.all(backends.splice(0).map(backend => backend.close()))
+    })
+
+    after(() => {
+      server.close()
+    })
+
+    it('rejects urls that are not redis urls', () => {
+      expect(() => new RedisLockBackend('http://127.0.0.1:6379')).to.throw('Unsupported execution lock url')
+    })
+
+    it('gives a lock to one owner at a time and renews it for that owner', async () => {
+      const a = createBackend()
+      const b = createBackend()
+      expect(await a.acquire('renew', 'a', 10_000)).to.be.true
+      expect(await b.acquire('renew', 'b', 10_000)).to.be.false
+      expect(await a.acquire('renew', 'a', 10_000)).to.be.true
+    })
+
+    it('only releases a lock for its owner', async () => {
+      const a = createBackend()
+      const b = createBackend()
+      expect(await a.acquire('release', 'a', 10_000)).to.be.true
+      await b.release('release', 'b')
+      expect(await b.acquire('release', 'b', 10_000)).to.be.false
+      await a.release('release', 'a')
+      expect(await b.acquire('release', 'b', 10_000)).to.be.true
+    })
+
+    it('does not let the previous owner renew or release a lock taken over after it expired', async () => {
+      const a = createBackend()
+      const b = createBackend()
+      expect(await a.acquire('takeover', 'a', 1)).to.be.true
+      await sleep(10)
+      expect(await b.acquire('takeover', 'b', 10_000)).to.be.true
+
+      expect(await a.acquire('takeover', 'a', 10_000)).to.be.false
+      await a.release('takeover', 'a')
+      expect(await a.acquire('takeover', 'a', 10_000)).to.be.false
+    })
+
+    it('fails the pending commands on a malformed reply and reconnects for the next one', async () => {
+      const backend = createBackend()
+      let failure: Error | undefined
+      try {
+        await backend.acquire('malformed', 'a', 10_000)
+      } catch (error: any) {
+        failure = error
+      }
+
+      expect(failure?.message).to.equal('Unexpected RESP type ?')
+      expect(await backend.acquire('after-malformed', 'a', 10_000)).to.be.true
+    })
+
+    it('sends concurrent commands over one connection and matches each reply', async () => {
+      const backend = createBackend()
+      const acquired = await Promise.all(
+        ['one', 'two', 'three'].map(key => backend.acquire(`concurrent:${key}`, 'a', 10_000)),
+      )
+      expect(acquired).to.deep.equal([true, true, true])
+      expect(await createBackend().acquire('concurrent:two', 'b', 10_000)).to.be.false
+    })
+  })
+})
@@ -0,0 +1,149 @@
+import {Provider} from '@ethersproject/abstract-provider'
+import {expect} from '@oclif/test'
+
+import {NonceManager} from '../../src/utils/nonce-manager'
+
+/**
+ * A stand-in for the RPC that only answers transaction counts
+ */
+class TransactionCountStub {
+  latest = 0
+  pending = 0
+
+  asProvider(): Provider {
+    return {
+      getTransactionCount: async (_address: string, blockTag: string) =>
+        blockTag === 'pending' ? this.pending : this.latest,
+    } as unknown as Provider
+  }
+}
+
+function createNonceManager(stub: TransactionCountStub): NonceManager {
+  return new NonceManager({
+    network: 'ethereum',
+    address: '0x0000000000000000000000000000000000000001',
+    provider: () => stub.asProvider(),
+  })
+}
+
+describe('NonceManager', () => {
+  let stub: TransactionCountStub
+
+  beforeEach(() => {
+    stub = new TransactionCountStub()
+    stub.latest = 5
+    stub.pending = 5
+  })
+
+  it('starts from the pending transaction count and hands out consecutive nonces', async () => {
+    const nonceManager = createNonceManager(stub)
+    expect(await nonceManager.reserve()).to.equal(5)
+    expect(await nonceManager.reserve()).to.equal(6)
+    expect(nonceManager.reservations).to.deep.equal([5, 6])
+  })
+
+  it('never hands out the same nonce to concurrent reservations', async () => {
+    const nonceManager = createNonceManager(stub)
+    const nonces = await Promise.all([nonceManager.reserve(), nonceManager.reserve(), nonceManager.reserve()])
+    expect(nonces).to.deep.equal([5, 6, 7])
+  })
+
+  it('reuses a released nonce that left a gap before any new nonce', async () => {
+    const nonceManager = createNonceManager(stub)
+    const first = await nonceManager.reserve()
+    const second = await nonceManager.reserve()
+    nonceManager.confirm(second)
+    nonceManager.release(first)
+
+    expect(await nonceManager.reserve()).to.equal(5)
+    expect(await nonceManager.reserve()).to.equal(7)
+  })
+
+  it('takes back the last nonce released without leaving a gap', async () => {
+    const nonceManager = createNonceManager(stub)
+    await nonceManager.reserve()
+    const last = await nonceManager.reserve()
+    nonceManager.release(last)
+
+    expect(await nonceManager.reserve()).to.equal(6)
+    expect(await nonceManager.reserve()).to.equal(7)
+  })
+
+  it('keeps the nonces handed out when they are confirmed out of order', async () => {
+    const nonceManager = createNonceManager(stub)
+    const nonces = [await nonceManager.reserve(), await nonceManager.reserve(), await nonceManager.reserve()]
+    nonceManager.confirm(nonces[2])
+    nonceManager.confirm(nonces[0])
+    expect(nonceManager.reservations).to.deep.equal([6])
+
+    nonceManager.confirm(nonces[1])
+    expect(nonceManager.reservations).to.deep.equal([])
+    expect(await nonceManager.reserve()).to.equal(8)
+  })
+
+  it('ignores releases of nonces that are not reserved', async () => {
+    const nonceManager = createNonceManager(stub)
+    const nonce = await nonceManager.reserve()
+    nonceManager.confirm(nonce)
+    nonceManager.release(nonce)
+    nonceManager.release(42)
+
+    expect(await nonceManager.reserve()).to.equal(6)
+  })
+
+  it('continues from the node after a reset when another sender moved the nonce ahead', async () => {
+    const nonceManager = createNonceManager(stub)
+    nonceManager.confirm(await nonceManager.reserve())
+    stub.latest = 12
+    stub.pending = 14
+
+    nonceManager.reset()
+    expect(await nonceManager.reserve()).to.equal(14)
+  })
+
+  it('reports the nonce jump and the pending transactions on reconcile', async () => {
+    const nonceManager = createNonceManager(stub)
+    nonceManager.confirm(await nonceManager.reserve())
+    stub.latest = 10
+    stub.pending = 11
+
+    nonceManager.reset()
+    expect(await nonceManager.reconcile()).to.deep.equal({latest: 10, pending: 11, next: 11, gaps: []})
+    expect(await nonceManager.reserve()).to.equal(11)
+  })
+
+  it('fills the nonces the node does not know about once a transaction was dropped', async () => {
+    const nonceManager = createNonceManager(stub)
+    for (let i = 0; i < 3; i++) {
+      nonceManager.confirm(await nonceManager.reserve())
+    }
+
+    // Nonces 5 to 7 were sent, the node only kept 5
+    stub.latest = 5
+    stub.pending = 6
+    expect(await nonceManager.reconcile()).to.deep.equal({latest: 5, pending: 6, next: 8, gaps: [6, 7]})
+    expect(await nonceManager.reserve()).to.equal(6)
+    expect(await nonceManager.reserve()).to.equal(7)
+    expect(await nonceManager.reserve()).to.equal(8)
+  })
+
+  it('keeps reserved nonces out of reuse when syncing after a reset', async () => {
+    const nonceManager = createNonceManager(stub)
+    const inFlight = await nonceManager.reserve()
+    nonceManager.reset()
+
+    // The node has not seen the reserved nonce yet
+    expect(await nonceManager.reserve()).to.equal(inFlight + 1)
+    expect(nonceManager.reservations).to.deep.equal([5, 6])
+  })
+
+  it('forgets reserved nonces that the node already counts', async () => {
+    const nonceManager = createNonceManager(stub)
+    await nonceManager.reserve()
+    stub.latest = 6
+    stub.pending = 6
+
+    await nonceManager.reconcile()
+    expect(nonceManager.reservations).to.deep.equal([])
+  })
+})
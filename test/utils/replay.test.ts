@@ -0,0 +1,126 @@
+import {expect} from '@oclif/test'
+
+import {isBlockRange, isReplayEnabled, parseReplayInput, parseReplayInputs, ReplayInput} from '../../src/utils/replay'
+
+describe('replay', () => {
+  describe('parseReplayInput', () => {
+    const validInputs: {input: string; expected: ReplayInput}[] = [
+      {input: '30909:30999', expected: {network: undefined, range: {start: 30_909, end: 30_999}}},
+      {input: '30909:30909', expected: {network: undefined, range: {start: 30_909, end: 30_909}}},
+      {input: ' 30909:30999 ', expected: {network: undefined, range: {start: 30_909, end: 30_999}}},
+      {
+        input: 'ethereum=18000000:18000500',
+        expected: {network: 'ethereum', range: {start: 18_000_000, end: 18_000_500}},
+      },
+      {input: 'arbitrumOne=1:2', expected: {network: 'arbitrumOne', range: {start: 1, end: 2}}},
+      {
+        input: '2024-05-01T10:00Z:2024-05-01T12:00Z',
+        expected: {
+          network: undefined,
+          range: {start: new Date('2024-05-01T10:00Z'), end: new Date('2024-05-01T12:00Z')},
+        },
+      },
+      {
+        input: 'polygon=2024-05-01:49000000',
+        expected: {network: 'polygon', range: {start: new Date('2024-05-01'), end: 49_000_000}},
+      },
+    ]
+    for (const {input, expected} of validInputs) {
+      it(`parses ${input}`, () => {
+        expect(parseReplayInput(input)).to.deep.equal(expected)
+      })
+    }
+
+    const openEndedInputs: {input: string; expected: ReplayInput}[] = [
+      {input: '30909', expected: {network: undefined, range: {start: 30_909, end: undefined}}},
+      {input: '30909:', expected: {network: undefined, range: {start: 30_909, end: undefined}}},
+      {input: 'polygon=49000000:', expected: {network: 'polygon', range: {start: 49_000_000, end: undefined}}},
+      {
+        input: 'ethereum=2024-05-01T10:00:00+02:00',
+        expected: {network: 'ethereum', range: {start: new Date('2024-05-01T10:00:00+02:00'), end: undefined}},
+      },
+    ]
+    for (const {input, expected} of openEndedInputs) {
+      it(`parses the open ended range ${input}`, () => {
+        expect(parseReplayInput(input)).to.deep.equal(expected)
+      })
+    }
+
+    const malformedInputs: {input: string; error: string}[] = [
+      {input: '', error: 'Replay flag input format is not valid'},
+      {input: 'abc', error: 'Replay flag input format is not valid'},
+      {input: ':30999', error: 'Replay flag input format is not valid'},
+      {input: '100:200:300', error: 'Replay flag input format is not valid'},
+      {input: '-5:10', error: 'Replay flag input format is not valid'},
+      {input: '1.5:10', error: 'Replay flag input format is not valid'},
+      {input: 'ethereum=', error: 'Replay flag input format is not valid'},
+      {input: '=100:200', error: 'Replay flag input format is not valid'},
+      {input: '1network=100:200', error: 'Replay flag input format is not valid'},
+      {input: 'ethereum:100:200', error: 'Replay flag input format is not valid'},
+      {input: '2024-13-45', error: '2024-13-45 is not a valid ISO date'},
+      {input: '200:100', error: 'End block must be greater than start block number'},
+      {input: '2024-05-02:2024-05-01', error: 'End block must be greater than start block number'},
+    ]
+    for (const {input, error} of malformedInputs) {
+      it(`rejects ${input === '' ? 'an empty input' : input}`, () => {
+        expect(() => parseReplayInput(input)).to.throw(error)
+      })
+    }
+  })
+
+  describe('parseReplayInputs', () => {
+    it('parses a range per network', () => {
+      expect(parseReplayInputs(['ethereum=100:200', 'polygon=300:'])).to.deep.equal([
+        {network: 'ethereum', range: {start: 100, end: 200}},
+        {network: 'polygon', range: {start: 300, end: undefined}},
+      ])
+    })
+
+    it('ignores the value that leaves replay mode off', () => {
+      expect(parseReplayInputs(['0'])).to.deep.equal([])
+      expect(parseReplayInputs(['0', 'ethereum=100:200'])).to.have.length(1)
+    })
+
+    const duplicateInputs: {inputs: string[]; error: string}[] = [
+      {inputs: ['ethereum=100:200', 'ethereum=300:400'], error: 'Replay flag has more than one range for ethereum'},
+      {inputs: ['ethereum=100:200', 'polygon=1:2', 'ethereum=100:200'], error: 'more than one range for ethereum'},
+      {inputs: ['100:200', '300:400'], error: 'Replay flag has more than one range without a network'},
+    ]
+    for (const {inputs, error} of duplicateInputs) {
+      it(`rejects the duplicate ranges ${inputs.join(' ')}`, () => {
+        expect(() => parseReplayInputs(inputs)).to.throw(error)
+      })
+    }
+
+    it('rejects the whole flag when one input is malformed', () => {
+      expect(() => parseReplayInputs(['ethereum=100:200', 'polygon=oops'])).to.throw(
+        'Replay flag input format is not valid -> polygon=oops',
+      )
+    })
+  })
+
+  describe('isReplayEnabled', () => {
+    const cases: {replay?: string[]; expected: boolean}[] = [
+      {replay: undefined, expected: false},
+      {replay: [], expected: false},
+      {replay: ['0'], expected: false},
+      {replay: ['0', '100:200'], expected: true},
+      {replay: ['ethereum=100:'], expected: true},
+    ]
+    for (const {replay, expected} of cases) {
+      it(`is ${expected} for ${JSON.stringify(replay)}`, () => {
+        expect(isReplayEnabled(replay)).to.equal(expected)
+      })
+    }
+  })
+
+  describe('isBlockRange', () => {
+    it('is true when either bound is a block', () => {
+      expect(isBlockRange({start: 100, end: 200})).to.be.true
+      expect(isBlockRange({start: new Date('2024-05-01'), end: 200})).to.be.true
+      expect(isBlockRange({start: 100})).to.be.true
+      expect(isBlockRange({start: new Date('2024-05-01'), end: new Date('2024-05-02')})).to.be.false
+      expect(isBlockRange({start: new Date('2024-05-01')})).to.be.false
+    })
+  })
+})